@@ -0,0 +1,258 @@
+import { colorTypeName } from "./colors";
+import { typesImportPath } from "./layout";
+import { propertyKey, propertyTypeName, structureTypeName, type NoesisClass, type NoesisProperty, type NoesisStructureMap, type OutputOptions } from "./types";
+
+export const bindingsFileName = "NoesisBindings.ts";
+
+export function bindingClassName(structureName: string): string {
+  return `${structureName}Binding`;
+}
+
+// runtime support shared by every generated wrapper
+function outputBindingRuntime(indentLevel: number): string {
+  const i1 = " ".repeat(indentLevel);
+  const i2 = i1.repeat(2);
+  const i3 = i1.repeat(3);
+  return `// Called with the path of the changed value relative to the subscribed object, e.g. "Items[2].Price"\n` +
+    `export type ChangeListener = (path: string) => void;\n\n` +
+    `function joinPath(key: string, path: string): string {\n` +
+    `${i1}if (!path) {\n` +
+    `${i2}return key;\n` +
+    `${i1}}\n` +
+    `${i1}return path.startsWith("[") ? \`\${key}\${path}\` : \`\${key}.\${path}\`;\n` +
+    `}\n\n` +
+    `// Base of every wrapper; changes bubble up to the root, so subscribing to the root sees everything\n` +
+    `export abstract class NoesisObservable {\n` +
+    `${i1}private listeners = new Set<ChangeListener>();\n` +
+    `${i1}private owner?: { parent: NoesisObservable; key: string };\n\n` +
+    `${i1}subscribe(listener: ChangeListener): () => void {\n` +
+    `${i2}this.listeners.add(listener);\n` +
+    `${i2}return () => {\n` +
+    `${i3}this.listeners.delete(listener);\n` +
+    `${i2}};\n` +
+    `${i1}}\n\n` +
+    `${i1}abstract toData(): unknown;\n\n` +
+    `${i1}protected notify(path: string) {\n` +
+    `${i2}this.listeners.forEach((listener) => listener(path));\n` +
+    `${i2}this.owner?.parent.childChanged(this, this.owner.key, path);\n` +
+    `${i1}}\n\n` +
+    `${i1}protected childChanged(child: NoesisObservable, key: string, path: string) {\n` +
+    `${i2}this.notify(joinPath(key, path));\n` +
+    `${i1}}\n\n` +
+    `${i1}protected attach<T>(child: T, key: string): T {\n` +
+    `${i2}if (child instanceof NoesisObservable) {\n` +
+    `${i3}child.owner = { parent: this, key };\n` +
+    `${i2}}\n` +
+    `${i2}return child;\n` +
+    `${i1}}\n\n` +
+    `${i1}protected detach(child: unknown) {\n` +
+    `${i2}if (child instanceof NoesisObservable) {\n` +
+    `${i3}child.owner = undefined;\n` +
+    `${i2}}\n` +
+    `${i1}}\n` +
+    `}\n\n` +
+    `// Collection property; T is the wrapped item type, D the plain data item type\n` +
+    `export class ObservableCollection<T, D = T> extends NoesisObservable {\n` +
+    `${i1}private items: T[] = [];\n\n` +
+    `${i1}constructor(items: T[]) {\n` +
+    `${i2}super();\n` +
+    `${i2}items.forEach((item) => this.items.push(this.attach(item, "")));\n` +
+    `${i1}}\n\n` +
+    `${i1}get length(): number {\n` +
+    `${i2}return this.items.length;\n` +
+    `${i1}}\n\n` +
+    `${i1}at(index: number): T | undefined {\n` +
+    `${i2}return this.items[index];\n` +
+    `${i1}}\n\n` +
+    `${i1}set(index: number, item: T) {\n` +
+    `${i2}this.detach(this.items[index]);\n` +
+    `${i2}this.items[index] = this.attach(item, "");\n` +
+    `${i2}this.notify(\`[\${index}]\`);\n` +
+    `${i1}}\n\n` +
+    `${i1}push(...items: T[]): number {\n` +
+    `${i2}items.forEach((item) => this.items.push(this.attach(item, "")));\n` +
+    `${i2}this.notify("");\n` +
+    `${i2}return this.items.length;\n` +
+    `${i1}}\n\n` +
+    `${i1}insert(index: number, item: T) {\n` +
+    `${i2}this.items.splice(index, 0, this.attach(item, ""));\n` +
+    `${i2}this.notify("");\n` +
+    `${i1}}\n\n` +
+    `${i1}removeAt(index: number): T | undefined {\n` +
+    `${i2}const [item] = this.items.splice(index, 1);\n` +
+    `${i2}this.detach(item);\n` +
+    `${i2}this.notify("");\n` +
+    `${i2}return item;\n` +
+    `${i1}}\n\n` +
+    `${i1}replace(items: T[]) {\n` +
+    `${i2}this.items.forEach((item) => this.detach(item));\n` +
+    `${i2}this.items = items.map((item) => this.attach(item, ""));\n` +
+    `${i2}this.notify("");\n` +
+    `${i1}}\n\n` +
+    `${i1}clear() {\n` +
+    `${i2}this.replace([]);\n` +
+    `${i1}}\n\n` +
+    `${i1}toArray(): T[] {\n` +
+    `${i2}return [...this.items];\n` +
+    `${i1}}\n\n` +
+    `${i1}[Symbol.iterator](): Iterator<T> {\n` +
+    `${i2}return this.items[Symbol.iterator]();\n` +
+    `${i1}}\n\n` +
+    `${i1}toData(): D[] {\n` +
+    `${i2}return this.items.map((item) => item instanceof NoesisObservable ? item.toData() : item) as D[];\n` +
+    `${i1}}\n\n` +
+    `${i1}// items report their current index, which changes as the collection does\n` +
+    `${i1}protected override childChanged(child: NoesisObservable, key: string, path: string) {\n` +
+    `${i2}this.notify(joinPath(\`[\${this.items.indexOf(child as T)}]\`, path));\n` +
+    `${i1}}\n` +
+    `}\n\n`;
+}
+
+type BindingMember = {
+  propName: string;
+  // type exposed by the getter
+  getterType: string;
+  // type accepted by the setter
+  setterType: string;
+  // constructor expression wrapping the plain `data` value
+  init: string;
+  // setter expression wrapping `value`, plain or already wrapped
+  wrap: string;
+  // expression producing plain data from the field
+  unwrap: string;
+  isCollection: boolean;
+};
+
+function isClass(structures: NoesisStructureMap, name: string): boolean {
+  return structures.get(name)?.type === "Class";
+}
+
+function bindingMember(structures: NoesisStructureMap, property: NoesisProperty, propName: string, isNullable: boolean): BindingMember {
+  const field = `this._${propName}`;
+  const nullType = isNullable ? " | null" : "";
+  if (property.type === "Object" && isClass(structures, property.subType)) {
+    const typeName = structureTypeName(structures, property.subType);
+    const bindingName = bindingClassName(typeName);
+    return {
+      propName,
+      getterType: `${bindingName}${nullType}`,
+      setterType: `${typeName} | ${bindingName}${nullType}`,
+      init: `this.attach(data.${propName} && new ${bindingName}(data.${propName}), "${propName}")`,
+      wrap: `this.attach(value && (value instanceof ${bindingName} ? value : new ${bindingName}(value)), "${propName}")`,
+      unwrap: `${field} && ${field}.toData()`,
+      isCollection: false,
+    };
+  }
+  if (property.type === "Collection") {
+    const itemType = structureTypeName(structures, property.subType);
+    if (isClass(structures, property.subType)) {
+      const bindingName = bindingClassName(itemType);
+      return {
+        propName,
+        getterType: `ObservableCollection<${bindingName}, ${itemType}>`,
+        setterType: `Array<${itemType} | ${bindingName}>`,
+        init: `(data.${propName} ?? []).map((item) => new ${bindingName}(item))`,
+        wrap: `(value ?? []).map((item) => item instanceof ${bindingName} ? item : new ${bindingName}(item))`,
+        unwrap: `${field}.toData()`,
+        isCollection: true,
+      };
+    }
+    return {
+      propName,
+      getterType: `ObservableCollection<${itemType}>`,
+      setterType: `Array<${itemType}>`,
+      init: `[...(data.${propName} ?? [])]`,
+      wrap: `[...(value ?? [])]`,
+      unwrap: `${field}.toData()`,
+      isCollection: true,
+    };
+  }
+  const type = `${propertyTypeName(structures, property)}${nullType}`;
+  return {
+    propName,
+    getterType: type,
+    setterType: type,
+    init: `data.${propName}`,
+    wrap: "value",
+    unwrap: field,
+    isCollection: false,
+  };
+}
+
+function outputBindingClass(structures: NoesisStructureMap, structure: NoesisClass, indentLevel: number, nullable: Set<string>): string {
+  const i1 = " ".repeat(indentLevel);
+  const i2 = i1.repeat(2);
+  const i3 = i1.repeat(3);
+  const className = bindingClassName(structure.typeName);
+  const members = Array.from(structure.properties.entries()).map(([propName, property]) => bindingMember(structures, property, propName, nullable.has(propertyKey(structure.qualifiedName, propName))));
+  let output = `// Reactive wrapper for structure ${structure.qualifiedName}\n`;
+  output += `export class ${className} extends NoesisObservable {\n`;
+  members.forEach((member) => {
+    output += `${i1}private _${member.propName}: ${member.getterType};\n`;
+  });
+  output += `\n${i1}constructor(data: ${structure.typeName}) {\n`;
+  output += `${i2}super();\n`;
+  members.forEach((member) => {
+    if (member.isCollection) {
+      output += `${i2}this._${member.propName} = this.attach(new ${member.getterType}(${member.init}), "${member.propName}");\n`;
+    } else {
+      output += `${i2}this._${member.propName} = ${member.init};\n`;
+    }
+  });
+  output += `${i1}}\n`;
+  members.forEach((member) => {
+    output += `\n${i1}get ${member.propName}(): ${member.getterType} {\n`;
+    output += `${i2}return this._${member.propName};\n`;
+    output += `${i1}}\n\n`;
+    output += `${i1}set ${member.propName}(value: ${member.setterType}) {\n`;
+    if (member.isCollection) {
+      output += `${i2}this._${member.propName}.replace(${member.wrap});\n`;
+    } else if (member.wrap === "value") {
+      output += `${i2}if (this._${member.propName} !== value) {\n`;
+      output += `${i3}this._${member.propName} = value;\n`;
+      output += `${i3}this.notify("${member.propName}");\n`;
+      output += `${i2}}\n`;
+    } else {
+      output += `${i2}this.detach(this._${member.propName});\n`;
+      output += `${i2}this._${member.propName} = ${member.wrap};\n`;
+      output += `${i2}this.notify("${member.propName}");\n`;
+    }
+    output += `${i1}}\n`;
+  });
+  output += `\n${i1}toData(): ${structure.typeName} {\n`;
+  output += `${i2}return {\n`;
+  members.forEach((member) => {
+    output += `${i3}${member.propName}: ${member.unwrap},\n`;
+  });
+  output += `${i2}};\n`;
+  output += `${i1}}\n`;
+  output += `}\n\n`;
+  return output;
+}
+
+// generate the source of the binding wrappers file
+export function outputBindings(structures: NoesisStructureMap, options: OutputOptions, nullable: Set<string>): string {
+  let output = `// Auto-generated reactive binding wrappers for Noesis structures\n\n`;
+  const imports = Array.from(structures.values().filter(value => value.type !== "BuiltIn").map(value => value.typeName));
+  output += `import { ImageSource } from "horizon/ui";\n`;
+  output += `import { Brush, LinearGradientBrush, RadialGradientBrush, ${colorTypeName}, ${imports.join(", ")} } from "${typesImportPath(options)}";\n\n`;
+  output += outputBindingRuntime(options.indentLevel);
+  structures.forEach((structure) => {
+    if (structure.type === "Class") {
+      output += outputBindingClass(structures, structure, options.indentLevel, nullable);
+    }
+  });
+  return output;
+}
+
+// factory added to a data set file, initializing the root wrapper from the set data
+export function outputBindingFactory(rootStructure: string, handlersType: string, exportName: string, indentLevel: number, dataParameter?: string): string {
+  const indent = " ".repeat(indentLevel);
+  const className = bindingClassName(rootStructure);
+  // loaders of the JSON data format also take the data
+  const parameters = dataParameter ? `handlers: ${handlersType}, ${dataParameter}: string` : `handlers: ${handlersType}`;
+  const args = dataParameter ? `handlers, ${dataParameter}` : "handlers";
+  return `export function createBinding(${parameters}): ${className} {\n` +
+    `${indent}return new ${className}(${exportName}(${args}));\n` +
+    `}\n`;
+}
@@ -0,0 +1,172 @@
+import { normalizeColor } from "./colors";
+
+// element names a Brush property value can be written as in a data set
+export const brushElementNames = ["SolidColorBrush", "LinearGradientBrush", "RadialGradientBrush"];
+
+type Point = {
+  x: number;
+  y: number;
+};
+
+// generate the brush type definitions for NoesisTypes.ts
+export function outputBrushTypes(indentLevel: number): string {
+  const indent = " ".repeat(indentLevel);
+  return `// Point in brush coordinates, relative to the painted area unless MappingMode is Absolute\n` +
+    `export type BrushPoint = {\n` +
+    `${indent}x: number;\n` +
+    `${indent}y: number;\n` +
+    `}\n\n` +
+    `export type GradientStop = {\n` +
+    `${indent}color: string;\n` +
+    `${indent}offset: number;\n` +
+    `}\n\n` +
+    `export type LinearGradientBrush = {\n` +
+    `${indent}type: "LinearGradient";\n` +
+    `${indent}startPoint: BrushPoint;\n` +
+    `${indent}endPoint: BrushPoint;\n` +
+    `${indent}gradientStops: GradientStop[];\n` +
+    `${indent}opacity: number;\n` +
+    `}\n\n` +
+    `export type RadialGradientBrush = {\n` +
+    `${indent}type: "RadialGradient";\n` +
+    `${indent}center: BrushPoint;\n` +
+    `${indent}gradientOrigin: BrushPoint;\n` +
+    `${indent}radiusX: number;\n` +
+    `${indent}radiusY: number;\n` +
+    `${indent}gradientStops: GradientStop[];\n` +
+    `${indent}opacity: number;\n` +
+    `}\n\n` +
+    `// Solid colors are plain color strings, complex brushes are one of these\n` +
+    `export type Brush = LinearGradientBrush | RadialGradientBrush;\n\n`;
+}
+
+// XAML points are "x,y" or "x y"
+function parsePoint(value: unknown, defaultPoint: Point): Point {
+  if (value === undefined) {
+    return defaultPoint;
+  }
+  const parts = `${value}`.split(/[\s,]+/).map(Number);
+  if (parts.length !== 2 || parts.some((part) => Number.isNaN(part))) {
+    return defaultPoint;
+  }
+  return { x: parts[0]!, y: parts[1]! };
+}
+
+function parseNumber(value: unknown, defaultValue: number): number {
+  const number = Number(value);
+  return value === undefined || Number.isNaN(number) ? defaultValue : number;
+}
+
+function attribute(data: any, name: string): unknown {
+  return Array.isArray(data[name]) ? data[name][0] : data[name];
+}
+
+// stops can be direct children, or wrapped in Brush.GradientStops and optionally a GradientStopCollection
+export function gradientStops(brushType: string, data: any): any[] {
+  const stops: any[] = [...(data.GradientStop ?? [])];
+  (data[`${brushType}.GradientStops`] ?? []).forEach((wrapper: any) => {
+    stops.push(...(wrapper?.GradientStop ?? []));
+    (wrapper?.GradientStopCollection ?? []).forEach((collection: any) => {
+      stops.push(...(collection?.GradientStop ?? []));
+    });
+  });
+  return stops;
+}
+
+function formatPoint(point: Point): string {
+  return `{ x: ${point.x}, y: ${point.y} }`;
+}
+
+type GradientStopValue = {
+  color: string;
+  offset: number;
+};
+
+// value of a LinearGradientBrush or RadialGradientBrush element, as the generated Brush types hold it
+export type GradientBrushValue = {
+  type: "LinearGradient";
+  startPoint: Point;
+  endPoint: Point;
+  gradientStops: GradientStopValue[];
+  opacity: number;
+} | {
+  type: "RadialGradient";
+  center: Point;
+  gradientOrigin: Point;
+  radiusX: number;
+  radiusY: number;
+  gradientStops: GradientStopValue[];
+  opacity: number;
+};
+
+export function gradientBrushValue(brushType: string, data: any): GradientBrushValue {
+  const stops = gradientStops(brushType, data).map((stop) => ({ color: normalizeColor(`${attribute(stop, "Color") ?? ""}`), offset: parseNumber(attribute(stop, "Offset"), 0) }));
+  const opacity = parseNumber(attribute(data, "Opacity"), 1);
+  if (brushType === "LinearGradientBrush") {
+    return {
+      type: "LinearGradient",
+      startPoint: parsePoint(attribute(data, "StartPoint"), { x: 0, y: 0 }),
+      endPoint: parsePoint(attribute(data, "EndPoint"), { x: 1, y: 1 }),
+      gradientStops: stops,
+      opacity,
+    };
+  }
+  const center = parsePoint(attribute(data, "Center"), { x: 0.5, y: 0.5 });
+  return {
+    type: "RadialGradient",
+    center,
+    gradientOrigin: parsePoint(attribute(data, "GradientOrigin"), center),
+    radiusX: parseNumber(attribute(data, "RadiusX"), 0.5),
+    radiusY: parseNumber(attribute(data, "RadiusY"), 0.5),
+    gradientStops: stops,
+    opacity,
+  };
+}
+
+// generate the TypeScript literal for a LinearGradientBrush or RadialGradientBrush element
+export function processGradientBrush(indent: string, indentLevel: number, brushType: string, data: any): string {
+  const subIndent = indent + " ".repeat(indentLevel);
+  const stopIndent = subIndent + " ".repeat(indentLevel);
+  const brush = gradientBrushValue(brushType, data);
+  let result = "{\n";
+  result += `${subIndent}type: "${brush.type}",\n`;
+  if (brush.type === "LinearGradient") {
+    result += `${subIndent}startPoint: ${formatPoint(brush.startPoint)},\n`;
+    result += `${subIndent}endPoint: ${formatPoint(brush.endPoint)},\n`;
+  } else {
+    result += `${subIndent}center: ${formatPoint(brush.center)},\n`;
+    result += `${subIndent}gradientOrigin: ${formatPoint(brush.gradientOrigin)},\n`;
+    result += `${subIndent}radiusX: ${brush.radiusX},\n`;
+    result += `${subIndent}radiusY: ${brush.radiusY},\n`;
+  }
+  result += `${subIndent}gradientStops: [\n`;
+  brush.gradientStops.forEach((stop) => {
+    result += `${stopIndent}{ color: "${stop.color}", offset: ${stop.offset} },\n`;
+  });
+  result += `${subIndent}],\n`;
+  result += `${subIndent}opacity: ${brush.opacity},\n`;
+  result += `${indent}}`;
+  return result;
+}
+
+// generate the data set element for a gradient brush value, undefined if the value is not a gradient brush
+export function exportGradientBrush(indent: string, indentLevel: number, value: any): string | undefined {
+  const subIndent = indent + " ".repeat(indentLevel);
+  let element: string;
+  let attributes: string;
+  if (value?.type === "LinearGradient") {
+    element = "LinearGradientBrush";
+    attributes = ` StartPoint="${value.startPoint.x},${value.startPoint.y}" EndPoint="${value.endPoint.x},${value.endPoint.y}"`;
+  } else if (value?.type === "RadialGradient") {
+    element = "RadialGradientBrush";
+    attributes = ` Center="${value.center.x},${value.center.y}" GradientOrigin="${value.gradientOrigin.x},${value.gradientOrigin.y}"` +
+      ` RadiusX="${value.radiusX}" RadiusY="${value.radiusY}"`;
+  } else {
+    return undefined;
+  }
+  if (value.opacity !== undefined && value.opacity !== 1) {
+    attributes += ` Opacity="${value.opacity}"`;
+  }
+  const stops = (value.gradientStops ?? []).map((stop: any) => `${subIndent}<GradientStop Color="${stop.color}" Offset="${stop.offset}" />\n`).join("");
+  return `${indent}<${element}${attributes}>\n${stops}${indent}</${element}>\n`;
+}
@@ -0,0 +1,198 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import packageJson from "../package.json";
+import type { GeneratedDataSet } from "./datasets";
+import { structureDependencies, structureSignature } from "./structures";
+import type { NoesisStructureMap } from "./types";
+
+// written to the output directory after every run
+export const cacheFileName = ".noesis2hzw-cache.json";
+
+// outputs of another generator version are never reused
+export const generatorVersion: string = packageJson.version;
+
+// a generated data set, without its sources, which are kept in the output directory
+export type CachedDataSet = Omit<GeneratedDataSet, "source" | "localizedFiles" | "dataFiles"> & {
+  localizedFiles: string[];
+  dataFiles: string[];
+};
+
+export type CachedSet = {
+  // hash of the set XAML
+  hash: string;
+  // qualified names of the structures the set's root reaches
+  dependencies: string[];
+  // Object and Image properties the set leaves unset, as Class.Property
+  unsetProperties: string[];
+  dataSet?: CachedDataSet;
+};
+
+export type GenerationCache = {
+  version: string;
+  // hash of the resolved options and the image map and translation files they name
+  options: string;
+  // hash of every structure, by qualified name
+  structures: Record<string, string>;
+  // by set file
+  sets: Record<string, CachedSet>;
+  // hash of every generated file, by output file
+  files: Record<string, string>;
+};
+
+// a cache read back from an output directory, with the sources of the outputs that are still as generated
+export type PreviousGeneration = {
+  cache: GenerationCache;
+  sources: Map<string, string>;
+};
+
+export function contentHash(source: string): string {
+  return createHash("sha256").update(source).digest("hex");
+}
+
+// hash of the options of a run; paths named in them contribute their content
+export function optionsHash(options: unknown, files: string[]): string {
+  const contents = files.map((file) => {
+    try {
+      return fs.statSync(file).isDirectory()
+        ? fs.readdirSync(file).sort().map((name) => `${name}:${contentHash(fs.readFileSync(path.join(file, name), "utf8"))}`).join()
+        : contentHash(fs.readFileSync(file, "utf8"));
+    } catch (e) {
+      // a missing file is reported by the run itself
+      return "";
+    }
+  });
+  return contentHash(JSON.stringify([options, contents]));
+}
+
+export function structureHashes(structures: NoesisStructureMap): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  structures.forEach((structure, name) => {
+    hashes[name] = contentHash(structureSignature(structure));
+  });
+  return hashes;
+}
+
+// hash of every set XAML under the data path, by set file
+export function setHashes(dataPath: string): Map<string, string> {
+  const hashes = new Map<string, string>();
+  const dataDir = dataPath + "/sets";
+  if (!fs.existsSync(dataDir)) {
+    return hashes;
+  }
+  fs.readdirSync(dataDir).filter((file) => file.endsWith(".xaml")).forEach((file) => {
+    hashes.set(file, contentHash(fs.readFileSync(`${dataDir}/${file}`, "utf8")));
+  });
+  return hashes;
+}
+
+// read the cache of an output directory; a missing or unreadable cache means nothing is reused
+export function readGenerationCache(outputDirectory: string): PreviousGeneration | undefined {
+  let cache: GenerationCache;
+  try {
+    cache = JSON.parse(fs.readFileSync(`${outputDirectory}/${cacheFileName}`, "utf8"));
+  } catch (e) {
+    return undefined;
+  }
+  if (typeof cache !== "object" || cache === null || typeof cache.files !== "object" || typeof cache.sets !== "object") {
+    return undefined;
+  }
+  // outputs edited or removed since they were generated are generated again
+  const sources = new Map<string, string>();
+  Object.entries(cache.files).forEach(([file, hash]) => {
+    const filePath = `${outputDirectory}/${file}`;
+    if (fs.existsSync(filePath)) {
+      const source = fs.readFileSync(filePath, "utf8");
+      if (contentHash(source) === hash) {
+        sources.set(file, source);
+      }
+    }
+  });
+  return { cache, sources };
+}
+
+// an unchanged cache is not written again either
+export async function writeGenerationCache(outputDirectory: string, cache: GenerationCache) {
+  const file = `${outputDirectory}/${cacheFileName}`;
+  const source = `${JSON.stringify(cache, null, 2)}\n`;
+  if (fs.existsSync(file) && fs.readFileSync(file, "utf8") === source) {
+    return;
+  }
+  await fs.promises.mkdir(outputDirectory, { recursive: true });
+  await fs.promises.writeFile(file, source);
+}
+
+function elementName(qualifiedName: string): string {
+  return qualifiedName.substring(qualifiedName.lastIndexOf(".") + 1);
+}
+
+// sets of a previous run that are still valid: the same generator, options, set XAML and structures it reaches,
+// with every output still on disk as generated
+export function reusableSets(previous: PreviousGeneration | undefined, options: string, structures: Record<string, string>, sets: Map<string, string>): Map<string, CachedSet> {
+  const reusable = new Map<string, CachedSet>();
+  if (!previous || previous.cache.version !== generatorVersion || previous.cache.options !== options) {
+    return reusable;
+  }
+  // a new structure sharing an element name with a dependency can change what the set's elements resolve to
+  const addedElementNames = new Set(Object.keys(structures).filter((name) => !(name in previous.cache.structures)).map(elementName));
+  Object.entries(previous.cache.sets).forEach(([file, cachedSet]) => {
+    if (sets.get(file) !== cachedSet.hash) {
+      return;
+    }
+    if (cachedSet.dependencies.some((name) => structures[name] === undefined || structures[name] !== previous.cache.structures[name] || addedElementNames.has(elementName(name)))) {
+      return;
+    }
+    const dataSet = cachedSet.dataSet;
+    if (dataSet && ![dataSet.outputFile, ...dataSet.localizedFiles, ...dataSet.dataFiles].every((file) => previous.sources.has(file))) {
+      // the unset properties stay valid, only the outputs are generated again
+      reusable.set(file, { ...cachedSet, dataSet: undefined });
+      return;
+    }
+    reusable.set(file, cachedSet);
+  });
+  return reusable;
+}
+
+// a cached data set with its sources read back from the output directory
+export function restoreDataSet(dataSet: CachedDataSet, sources: Map<string, string>): GeneratedDataSet {
+  return {
+    ...dataSet,
+    source: sources.get(dataSet.outputFile)!,
+    localizedFiles: new Map(dataSet.localizedFiles.map((file) => [file, sources.get(file)!])),
+    dataFiles: new Map(dataSet.dataFiles.map((file) => [file, sources.get(file)!])),
+  };
+}
+
+function cachedDataSet(dataSet: GeneratedDataSet): CachedDataSet {
+  const { source, localizedFiles, dataFiles, ...rest } = dataSet;
+  return { ...rest, localizedFiles: Array.from(localizedFiles.keys()), dataFiles: Array.from(dataFiles.keys()) };
+}
+
+// the cache of a run; sets the run did not generate keep their still valid entries
+export function generationCache(previous: PreviousGeneration | undefined, options: string, structures: NoesisStructureMap, hashes: Record<string, string>, sets: Map<string, string>, setUnsetProperties: Map<string, string[]>, reusable: Map<string, CachedSet>, dataSets: GeneratedDataSet[], files: Map<string, string>): GenerationCache {
+  const cache: GenerationCache = {
+    version: generatorVersion,
+    options,
+    structures: hashes,
+    sets: {},
+    files: {},
+  };
+  const generated = new Map(dataSets.map((dataSet) => [dataSet.setFile, dataSet]));
+  sets.forEach((hash, file) => {
+    const dataSet = generated.get(file);
+    const unsetProperties = setUnsetProperties.get(file);
+    if (dataSet && unsetProperties) {
+      cache.sets[file] = { hash, dependencies: Array.from(structureDependencies(structures, dataSet.rootStructure)), unsetProperties, dataSet: cachedDataSet(dataSet) };
+    } else if (reusable.has(file)) {
+      cache.sets[file] = reusable.get(file)!;
+    }
+  });
+  // outputs a single set run leaves alone are still as generated
+  previous?.sources.forEach((source, file) => {
+    cache.files[file] = contentHash(source);
+  });
+  files.forEach((source, file) => {
+    cache.files[file] = contentHash(source);
+  });
+  return cache;
+}
@@ -0,0 +1,241 @@
+import fs from "node:fs";
+import path from "node:path";
+import { cacheFileName, readGenerationCache } from "./cache";
+import { schemaDirectory } from "./schema";
+
+export type StaleFile = {
+  file: string;
+  // unified diff from the file on disk to the generated source
+  diff: string;
+};
+
+type DiffLine = {
+  kind: " " | "-" | "+";
+  text: string;
+  oldLine: number;
+  newLine: number;
+};
+
+const contextLines = 3;
+
+function splitLines(source: string): string[] {
+  if (source === "") {
+    return [];
+  }
+  const lines = source.split("\n");
+  // a trailing newline does not start another line
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+// split of a range at the middle snake of a shortest edit script, as the end of the snake
+type Split = {
+  oldIndex: number;
+  newIndex: number;
+};
+
+// Myers' bidirectional search for the middle snake of oldLines[oldStart, oldEnd) to newLines[newStart, newEnd),
+// in linear space; the ranges differ in their first and last lines
+function middleSnake(oldLines: string[], newLines: string[], oldStart: number, oldEnd: number, newStart: number, newEnd: number): Split {
+  const oldLength = oldEnd - oldStart;
+  const newLength = newEnd - newStart;
+  const maxEdits = Math.ceil((oldLength + newLength) / 2);
+  const offset = maxEdits;
+  const size = 2 * maxEdits + 2;
+  // furthest old index reached on each diagonal, forward from the start and backward from the end
+  const forward = new Int32Array(size).fill(-1);
+  const backward = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = oldLength - newLength;
+  // with an odd delta the paths meet while extending forward, otherwise backward
+  const front = delta % 2 !== 0;
+  // diagonals that ran off the grid are not extended again
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+  for (let edits = 0; edits < maxEdits; edits++) {
+    for (let k = -edits + forwardStart; k <= edits - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -edits || (k !== edits && forward[index - 1]! < forward[index + 1]!) ? forward[index + 1]! : forward[index - 1]! + 1;
+      let y = x - k;
+      while (x < oldLength && y < newLength && oldLines[oldStart + x] === newLines[newStart + y]) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+      if (x > oldLength) {
+        forwardEnd += 2;
+      } else if (y > newLength) {
+        forwardStart += 2;
+      } else if (front) {
+        const backwardIndex = offset + delta - k;
+        if (backwardIndex >= 0 && backwardIndex < size && backward[backwardIndex] !== -1 && x >= oldLength - backward[backwardIndex]!) {
+          return { oldIndex: oldStart + x, newIndex: newStart + y };
+        }
+      }
+    }
+    for (let k = -edits + backwardStart; k <= edits - backwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -edits || (k !== edits && backward[index - 1]! < backward[index + 1]!) ? backward[index + 1]! : backward[index - 1]! + 1;
+      let y = x - k;
+      while (x < oldLength && y < newLength && oldLines[oldEnd - 1 - x] === newLines[newEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[index] = x;
+      if (x > oldLength) {
+        backwardEnd += 2;
+      } else if (y > newLength) {
+        backwardStart += 2;
+      } else if (!front) {
+        const forwardIndex = offset + delta - k;
+        if (forwardIndex >= 0 && forwardIndex < size && forward[forwardIndex] !== -1) {
+          const forwardX = forward[forwardIndex]!;
+          if (forwardX >= oldLength - x) {
+            return { oldIndex: oldStart + forwardX, newIndex: newStart + forwardX - (delta - k) };
+          }
+        }
+      }
+    }
+  }
+  // no common line: delete every old line, then insert every new one
+  return { oldIndex: oldEnd, newIndex: newStart };
+}
+
+// push the edit script of oldLines[oldStart, oldEnd) to newLines[newStart, newEnd), trimming the common prefix and suffix
+// and splitting the rest at its middle snake
+function diffRange(oldLines: string[], newLines: string[], oldStart: number, oldEnd: number, newStart: number, newEnd: number, push: (kind: DiffLine["kind"], text: string) => void) {
+  while (oldStart < oldEnd && newStart < newEnd && oldLines[oldStart] === newLines[newStart]) {
+    push(" ", oldLines[oldStart++]!);
+    newStart++;
+  }
+  let suffix = 0;
+  while (oldStart < oldEnd - suffix && newStart < newEnd - suffix && oldLines[oldEnd - 1 - suffix] === newLines[newEnd - 1 - suffix]) {
+    suffix++;
+  }
+  if (oldStart === oldEnd - suffix || newStart === newEnd - suffix) {
+    oldLines.slice(oldStart, oldEnd - suffix).forEach((text) => push("-", text));
+    newLines.slice(newStart, newEnd - suffix).forEach((text) => push("+", text));
+  } else {
+    const split = middleSnake(oldLines, newLines, oldStart, oldEnd - suffix, newStart, newEnd - suffix);
+    diffRange(oldLines, newLines, oldStart, split.oldIndex, newStart, split.newIndex, push);
+    diffRange(oldLines, newLines, split.oldIndex, oldEnd - suffix, split.newIndex, newEnd - suffix, push);
+  }
+  oldLines.slice(oldEnd - suffix, oldEnd).forEach((text) => push(" ", text));
+}
+
+// shortest line diff, in space linear in the number of lines
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const result: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const push = (kind: DiffLine["kind"], text: string) => {
+    result.push({ kind, text, oldLine, newLine });
+    if (kind !== "+") {
+      oldLine++;
+    }
+    if (kind !== "-") {
+      newLine++;
+    }
+  };
+  diffRange(oldLines, newLines, 0, oldLines.length, 0, newLines.length, push);
+  return result;
+}
+
+// unified diff with three lines of context, empty if the sources are equal
+export function unifiedDiff(oldName: string, newName: string, oldSource: string, newSource: string): string {
+  if (oldSource === newSource) {
+    return "";
+  }
+  const lines = diffLines(splitLines(oldSource), splitLines(newSource));
+  let output = `--- ${oldName}\n+++ ${newName}\n`;
+  let index = 0;
+  while (index < lines.length) {
+    // find the next change and gather it with its context into a hunk
+    while (index < lines.length && lines[index]!.kind === " ") {
+      index++;
+    }
+    if (index === lines.length) {
+      break;
+    }
+    const start = Math.max(0, index - contextLines);
+    let end = index;
+    while (end < lines.length) {
+      if (lines[end]!.kind !== " ") {
+        end++;
+        continue;
+      }
+      let nextChange = end;
+      while (nextChange < lines.length && lines[nextChange]!.kind === " ") {
+        nextChange++;
+      }
+      if (nextChange === lines.length || nextChange - end > contextLines * 2) {
+        end = Math.min(lines.length, end + contextLines);
+        break;
+      }
+      end = nextChange;
+    }
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.kind !== "+").length;
+    const newCount = hunk.filter((line) => line.kind !== "-").length;
+    const oldStart = oldCount > 0 ? hunk[0]!.oldLine : hunk[0]!.oldLine - 1;
+    const newStart = newCount > 0 ? hunk[0]!.newLine : hunk[0]!.newLine - 1;
+    output += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+    hunk.forEach((line) => {
+      output += `${line.kind}${line.text}\n`;
+    });
+    index = end;
+  }
+  return output;
+}
+
+// every generated TypeScript file starts with this
+const generatedHeader = "// Auto-generated";
+
+// files of the output directory an earlier run generated: those its cache lists, TypeScript files starting with the
+// generated header, the JSON data beside them and the schemas
+function generatedFiles(outputDirectory: string): Set<string> {
+  const generated = new Set(Object.keys(readGenerationCache(outputDirectory)?.cache.files ?? {}));
+  if (!fs.existsSync(outputDirectory)) {
+    return generated;
+  }
+  const files = fs.readdirSync(outputDirectory, { recursive: true, encoding: "utf8" })
+    .map((file) => file.split(path.sep).join("/"))
+    .filter((file) => !file.split("/").some((part) => part.startsWith(".")) && fs.statSync(`${outputDirectory}/${file}`).isFile());
+  files.filter((file) => file.endsWith(".ts") && fs.readFileSync(`${outputDirectory}/${file}`, "utf8").startsWith(generatedHeader)).forEach((file) => generated.add(file));
+  files.filter((file) => file.endsWith(".json")).forEach((file) => {
+    if (generated.has(file.replace(/\.json$/, ".ts")) || (file.startsWith(`${schemaDirectory}/`) && file.endsWith(".schema.json"))) {
+      generated.add(file);
+    }
+  });
+  generated.delete(cacheFileName);
+  return generated;
+}
+
+// compare generated files with the output directory without writing anything; files an earlier run generated that
+// this one no longer does are stale too, with a diff removing them
+export function findStaleFiles(files: Map<string, string>, outputDirectory: string): StaleFile[] {
+  const staleFiles: StaleFile[] = [];
+  files.forEach((source, file) => {
+    const filePath = `${outputDirectory}/${file}`;
+    const exists = fs.existsSync(filePath);
+    const current = exists ? fs.readFileSync(filePath, "utf8") : "";
+    if (!exists || current !== source) {
+      staleFiles.push({
+        file,
+        diff: unifiedDiff(exists ? filePath : "/dev/null", filePath, current, source),
+      });
+    }
+  });
+  generatedFiles(outputDirectory).forEach((file) => {
+    const filePath = `${outputDirectory}/${file}`;
+    if (!files.has(file) && fs.existsSync(filePath)) {
+      staleFiles.push({ file, diff: unifiedDiff(filePath, "/dev/null", fs.readFileSync(filePath, "utf8"), "") });
+    }
+  });
+  return staleFiles;
+}
@@ -1,7 +1,32 @@
 #! /usr/bin/env bun
-import { program } from "commander";
-import { outputTypes, readStructures } from "./structures";
-import { outputDataSets } from "./datasets";
+import fs from "node:fs";
+import path from "node:path";
+import { Command, Option, program } from "commander";
+import { cacheFileName, readGenerationCache, writeGenerationCache } from "./cache";
+import { findStaleFiles } from "./check";
+import { readProjectConfig } from "./config";
+import { exportSet } from "./export";
+import { generate, projectDataPath, writeGeneratedFiles } from "./generate";
+import { watchProject } from "./watch";
+import { hasErrors, printDiagnostics, reportFormats, writeDiagnosticsReport, type Diagnostic, type ReportFormat } from "./diagnostics";
+import { lintViews } from "./lint";
+import { localeOutputs, stringTableFormats } from "./localization";
+import { sampleSet } from "./sample";
+import { dataFormats, enumStyles, outputLayouts } from "./types";
+
+// a non-negative integer option, or a usage error
+function countOption(value: string, name: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    program.error(`${name} must be a non-negative integer: ${value}`);
+  }
+  return count;
+}
+
+// value of an option given on the command line; options left at their default yield to the project config
+function commandLineValue(command: Command, name: string): any {
+  return command.getOptionValueSource(name) === "default" ? undefined : command.opts()[name];
+}
 
 program
   .name("noesis2hzw")
@@ -10,20 +35,231 @@ program
   .showHelpAfterError()
   .option("-v, --verbose", "Enable verbose logging")
   .option("-t, --types-only", "Only generate TypeScript type definitions")
+  .option("-s, --strict", "Treat warnings, such as data sets that do not match their structures, as errors")
+  .option("--report <format> <file...>", "Write a diagnostics report, e.g. --report json report.json, rewritten after every regeneration in watch mode; give it after the paths or end it with --")
+  .option("-b, --bindings", "Also generate reactive binding wrappers for every structure")
+  .option("--no-bindings", "Do not generate binding wrappers, even when the project config enables them")
+  .option("--paths", "Also generate typed binding path builders for every structure, e.g. path<ShopRoot>().Items.at(2).Price")
+  .option("--no-paths", "Do not generate binding path builders, even when the project config enables them")
+  .option("--schema", "Also generate a JSON Schema document for every class and enum under schema/")
+  .option("--no-schema", "Do not generate JSON Schema documents, even when the project config enables them")
+  .option("--image-map <file>", "JSON file mapping image paths to Horizon texture asset IDs; mapped images are generated as ImageSource objects")
+  .addOption(new Option("--layout <layout>", "Output layout: single (NoesisTypes.ts), structure or namespace (a module per structure or namespace under types/, plus an index.ts)").choices(outputLayouts).default("single"))
+  .addOption(new Option("--data-format <format>", "Data set output: ts (a data context factory per set) or json (a compact <set>.json per set, read by a small typed loader that can also load collections page by page)").choices(dataFormats).default("ts"))
+  .addOption(new Option("--localize <format>", "Extract String values into a string table (NoesisStrings.json or NoesisStrings.xlf) keyed by set name and property path").choices(stringTableFormats))
+  .addOption(new Option("--locale-output <output>", "Localized data sets: lookup (strings resolve through t(key) from NoesisStrings.ts) or per-locale (a <set>.<locale>.ts per translation)").choices(localeOutputs).default("lookup"))
+  .option("--source-locale <locale>", "Locale of the strings in the Noesis data sets", "en")
+  .option("--translations <directory>", "Directory of <locale>.json or <locale>.xlf translation files for --localize")
+  .option("-p, --prefix-namespaces", "Prefix generated type names with their structure namespace, e.g. Shop_ShopItem, when short names clash")
+  .option("--no-prefix-namespaces", "Do not prefix generated type names, even when the project config enables it")
+  .option("-c, --check", "Only compare the generated files with the output directory, printing a diff for each stale file, including generated files the run no longer produces")
+  .option("-w, --watch", "Regenerate whenever structures or sets under .noesis/data change")
+  .option("--no-cache", `Read every set and rewrite every output instead of reusing the unchanged ones recorded in ${cacheFileName}`)
   .option("-i, --indent-level <number>", "Number of spaces for indentation", "2")
+  .addOption(new Option("--enum-style <style>", "Form of the generated enums: string, numeric (Noesis values) or union (const object and union type)").choices(enumStyles).default("string"))
   .argument("<noesis_project_path>", "Path to the Noesis project root directory (containing the .noesis/data folder)")
   .argument("<output_directory>", "Path to the output directory for generated TypeScript files")
   .argument("[set_name]", "Name of the dataset set to generate (optional, all if omitted)")
   .action(async (noesisProjectPath: string, outputDirectory: string, setName?: string) => {
     const options = program.opts();
+    const reportValues: string[] | undefined = options.report;
+    if (reportValues && (reportValues.length !== 2 || !reportFormats.includes(reportValues[0] as ReportFormat))) {
+      program.error(`--report expects a format (${reportFormats.join(", ")}) and a file, e.g. --report json report.json`);
+    }
+    const report = reportValues ? { format: reportValues[0] as ReportFormat, file: reportValues[1]! } : undefined;
+    if (options.check && options.watch) {
+      program.error("--check cannot be combined with --watch");
+    }
     if (options.verbose) {
       console.log("Verbose logging enabled");
     }
-    const dataPath = `${noesisProjectPath}/.noesis/data`;;
-    const structures = await readStructures(dataPath, options.verbose);
-    outputTypes(structures, outputDirectory, options.verbose, options.indentLevel);
-    if (!options.typesOnly) {
-      await outputDataSets(structures, dataPath, outputDirectory, setName, options.verbose, options.indentLevel);
+    const indentLevel = commandLineValue(program, "indentLevel");
+    const previous = options.cache ? readGenerationCache(outputDirectory) : undefined;
+    const { files, diagnostics, structures, dataSets, nullable, options: resolved, cache } = await generate({
+      projectPath: noesisProjectPath,
+      setName,
+      indentLevel: indentLevel === undefined ? undefined : Number(indentLevel),
+      enumStyle: commandLineValue(program, "enumStyle"),
+      prefixNamespaces: options.prefixNamespaces,
+      layout: commandLineValue(program, "layout"),
+      dataFormat: commandLineValue(program, "dataFormat"),
+      bindings: options.bindings,
+      paths: options.paths,
+      schema: options.schema,
+      imageMap: options.imageMap,
+      localization: {
+        format: options.localize,
+        output: commandLineValue(program, "localeOutput"),
+        sourceLocale: commandLineValue(program, "sourceLocale"),
+        translationsPath: options.translations,
+      },
+      typesOnly: options.typesOnly,
+      isVerbose: options.verbose,
+      previous,
+    });
+    if (options.translations && !resolved.localization) {
+      program.error("--translations requires --localize or a localization format in the project config");
+    }
+    if (options.check) {
+      const staleFiles = findStaleFiles(files, outputDirectory);
+      staleFiles.forEach((staleFile) => process.stdout.write(staleFile.diff));
+      if (staleFiles.length > 0) {
+        console.error(`${staleFiles.length} generated file(s) out of date: ${staleFiles.map((staleFile) => staleFile.file).join(", ")}`);
+        process.exitCode = 1;
+      }
+    } else {
+      if (options.verbose) {
+        console.log(`Writing ${files.size} files to ${outputDirectory}`);
+      }
+      await writeGeneratedFiles(files, outputDirectory, options.verbose, previous?.sources);
+      if (options.cache) {
+        await writeGenerationCache(outputDirectory, cache);
+      }
+    }
+    printDiagnostics(diagnostics);
+    if (report) {
+      writeDiagnosticsReport(diagnostics, report.format, report.file);
+    }
+    if (options.watch) {
+      watchProject({
+        dataPath: projectDataPath(noesisProjectPath),
+        outputDirectory,
+        isVerbose: options.verbose,
+        outputOptions: resolved.outputOptions,
+        types: resolved.types,
+        typesOnly: options.typesOnly,
+        setName,
+        imageMap: resolved.imageMap,
+        localization: resolved.localization,
+        report,
+        debounceDelay: 200,
+      }, structures, dataSets, nullable);
+      return;
+    }
+    if (hasErrors(diagnostics, options.strict)) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command("export")
+  .description("Export a data context object back to a Noesis data set .xaml file")
+  .option("-e, --export-name <name>", "Name of the data context (or data context factory) export in the data module (defaults to the export naming of the project config, or createDataContext)")
+  .option("-r, --root-structure <name>", "Root structure of the set (defaults to the root of the existing set file)")
+  .option("-a, --assembly <name>", "Assembly name used in image URIs (defaults to the project folder name)")
+  .option("-o, --output <file>", "Write the set to this file instead of .noesis/data/sets/<set_name>.xaml")
+  .argument("<noesis_project_path>", "Path to the Noesis project root directory (containing the .noesis/data folder)")
+  .argument("<data_module>", "TypeScript/JavaScript module exporting the data context, or a JSON file holding it")
+  .argument("<set_name>", "Name of the dataset set to write")
+  .action(async (noesisProjectPath: string, dataModule: string, setName: string, options, command) => {
+    const globalOptions = command.optsWithGlobals();
+    const configDiagnostics: Diagnostic[] = [];
+    const config = await readProjectConfig(noesisProjectPath, configDiagnostics);
+    let dataContext: unknown;
+    if (dataModule.endsWith(".json")) {
+      dataContext = JSON.parse(fs.readFileSync(dataModule, "utf8"));
+    } else {
+      const exportName = options.exportName ?? config.sets?.[setName]?.exportName ?? config.naming?.dataContextExport ?? "createDataContext";
+      const module = await import(path.resolve(dataModule));
+      dataContext = module[exportName];
+      if (dataContext === undefined) {
+        program.error(`${dataModule} has no export named ${exportName}`);
+      }
+    }
+    const indentLevel = commandLineValue(program, "indentLevel");
+    const result = await exportSet({
+      projectPath: noesisProjectPath,
+      config,
+      setName,
+      dataContext,
+      rootStructure: options.rootStructure,
+      assemblyName: options.assembly,
+      indentLevel: indentLevel === undefined ? undefined : Number(indentLevel),
+      isVerbose: globalOptions.verbose,
+    });
+    const { file, source } = result;
+    const diagnostics = [...configDiagnostics, ...result.diagnostics];
+    if (source) {
+      const outputFile = options.output ?? file;
+      if (globalOptions.verbose) {
+        console.log(`Writing ${outputFile}`);
+      }
+      await fs.promises.writeFile(outputFile, source);
+    }
+    printDiagnostics(diagnostics);
+    if (hasErrors(diagnostics, globalOptions.strict)) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command("sample")
+  .description("Generate a reproducible random data set for a structure from its constraints, as a .xaml set and its TypeScript data context")
+  .option("--seed <number>", "Seed of the random values; the same seed gives the same set", "1")
+  .option("-n, --set-name <name>", "Name of the set (defaults to <structure>Sample)")
+  .option("--min-items <number>", "Fewest items in each collection", "1")
+  .option("--max-items <number>", "Most items in each collection", "3")
+  .option("-d, --depth <number>", "Levels of nested objects and collections below the root; deeper ones are left unset", "3")
+  .option("-a, --assembly <name>", "Assembly name used in image URIs (defaults to the project folder name)")
+  .option("-o, --output <file>", "Write the set to this file instead of .noesis/data/sets/<set_name>.xaml")
+  .argument("<noesis_project_path>", "Path to the Noesis project root directory (containing the .noesis/data folder)")
+  .argument("<structure>", "Root structure of the set, as a qualified name or an element name naming exactly one structure")
+  .argument("[output_directory]", "Also write the data context, <set_name>.ts, to this directory; its commands and types come from regenerating the project with the set")
+  .action(async (noesisProjectPath: string, structure: string, outputDirectory: string | undefined, options, command) => {
+    const globalOptions = command.optsWithGlobals();
+    const indentLevel = commandLineValue(program, "indentLevel");
+    const { file, source, dataSet, diagnostics } = await sampleSet({
+      projectPath: noesisProjectPath,
+      structure,
+      setName: options.setName,
+      seed: countOption(options.seed, "--seed"),
+      minItems: countOption(options.minItems, "--min-items"),
+      maxItems: countOption(options.maxItems, "--max-items"),
+      maxDepth: countOption(options.depth, "--depth"),
+      assemblyName: options.assembly,
+      file: options.output,
+      indentLevel: indentLevel === undefined ? undefined : Number(indentLevel),
+      enumStyle: commandLineValue(program, "enumStyle"),
+      prefixNamespaces: globalOptions.prefixNamespaces,
+      layout: commandLineValue(program, "layout"),
+      dataFormat: commandLineValue(program, "dataFormat"),
+      isVerbose: globalOptions.verbose,
+    });
+    if (source) {
+      if (globalOptions.verbose) {
+        console.log(`Writing ${file}`);
+      }
+      await fs.promises.writeFile(file, source);
+    }
+    if (dataSet && outputDirectory) {
+      await writeGeneratedFiles(new Map([[dataSet.outputFile, dataSet.source], ...dataSet.dataFiles]), outputDirectory, globalOptions.verbose);
+    }
+    printDiagnostics(diagnostics);
+    if (hasErrors(diagnostics, globalOptions.strict)) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command("lint")
+  .description("Check the {Binding ...} paths of the project's .xaml views against the root structure of the data set each view binds to")
+  .option("-n, --set-name <name>", "Check every view against this set (defaults to the set file a view references, or the set named like the view)")
+  .argument("<noesis_project_path>", "Path to the Noesis project root directory (containing the .noesis/data folder)")
+  .argument("[views...]", "View files to check (defaults to every .xaml file of the project outside hidden folders)")
+  .action(async (noesisProjectPath: string, views: string[], options, command) => {
+    const globalOptions = command.optsWithGlobals();
+    const { views: checkedViews, bindingCount, diagnostics } = await lintViews({
+      projectPath: noesisProjectPath,
+      views: views.length > 0 ? views : undefined,
+      setName: options.setName,
+      isVerbose: globalOptions.verbose,
+    });
+    if (globalOptions.verbose) {
+      console.log(`Checked ${bindingCount} binding(s) in ${checkedViews.length} view(s)`);
+    }
+    printDiagnostics(diagnostics);
+    if (hasErrors(diagnostics, globalOptions.strict)) {
+      process.exitCode = 1;
     }
   });
 
@@ -0,0 +1,107 @@
+// generated type of Color values, with 0-255 channels
+export const colorTypeName = "RGBA";
+
+export type Rgba = {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+};
+
+// named XAML colors as #AARRGGBB, matched case-insensitively
+const namedColors: Record<string, string> = {
+  AliceBlue: "#FFF0F8FF", AntiqueWhite: "#FFFAEBD7", Aqua: "#FF00FFFF", Aquamarine: "#FF7FFFD4", Azure: "#FFF0FFFF",
+  Beige: "#FFF5F5DC", Bisque: "#FFFFE4C4", Black: "#FF000000", BlanchedAlmond: "#FFFFEBCD", Blue: "#FF0000FF",
+  BlueViolet: "#FF8A2BE2", Brown: "#FFA52A2A", BurlyWood: "#FFDEB887", CadetBlue: "#FF5F9EA0", Chartreuse: "#FF7FFF00",
+  Chocolate: "#FFD2691E", Coral: "#FFFF7F50", CornflowerBlue: "#FF6495ED", Cornsilk: "#FFFFF8DC", Crimson: "#FFDC143C",
+  Cyan: "#FF00FFFF", DarkBlue: "#FF00008B", DarkCyan: "#FF008B8B", DarkGoldenrod: "#FFB8860B", DarkGray: "#FFA9A9A9",
+  DarkGreen: "#FF006400", DarkKhaki: "#FFBDB76B", DarkMagenta: "#FF8B008B", DarkOliveGreen: "#FF556B2F", DarkOrange: "#FFFF8C00",
+  DarkOrchid: "#FF9932CC", DarkRed: "#FF8B0000", DarkSalmon: "#FFE9967A", DarkSeaGreen: "#FF8FBC8F", DarkSlateBlue: "#FF483D8B",
+  DarkSlateGray: "#FF2F4F4F", DarkTurquoise: "#FF00CED1", DarkViolet: "#FF9400D3", DeepPink: "#FFFF1493", DeepSkyBlue: "#FF00BFFF",
+  DimGray: "#FF696969", DodgerBlue: "#FF1E90FF", Firebrick: "#FFB22222", FloralWhite: "#FFFFFAF0", ForestGreen: "#FF228B22",
+  Fuchsia: "#FFFF00FF", Gainsboro: "#FFDCDCDC", GhostWhite: "#FFF8F8FF", Gold: "#FFFFD700", Goldenrod: "#FFDAA520",
+  Gray: "#FF808080", Green: "#FF008000", GreenYellow: "#FFADFF2F", Honeydew: "#FFF0FFF0", HotPink: "#FFFF69B4",
+  IndianRed: "#FFCD5C5C", Indigo: "#FF4B0082", Ivory: "#FFFFFFF0", Khaki: "#FFF0E68C", Lavender: "#FFE6E6FA",
+  LavenderBlush: "#FFFFF0F5", LawnGreen: "#FF7CFC00", LemonChiffon: "#FFFFFACD", LightBlue: "#FFADD8E6", LightCoral: "#FFF08080",
+  LightCyan: "#FFE0FFFF", LightGoldenrodYellow: "#FFFAFAD2", LightGray: "#FFD3D3D3", LightGreen: "#FF90EE90", LightPink: "#FFFFB6C1",
+  LightSalmon: "#FFFFA07A", LightSeaGreen: "#FF20B2AA", LightSkyBlue: "#FF87CEFA", LightSlateGray: "#FF778899", LightSteelBlue: "#FFB0C4DE",
+  LightYellow: "#FFFFFFE0", Lime: "#FF00FF00", LimeGreen: "#FF32CD32", Linen: "#FFFAF0E6", Magenta: "#FFFF00FF",
+  Maroon: "#FF800000", MediumAquamarine: "#FF66CDAA", MediumBlue: "#FF0000CD", MediumOrchid: "#FFBA55D3", MediumPurple: "#FF9370DB",
+  MediumSeaGreen: "#FF3CB371", MediumSlateBlue: "#FF7B68EE", MediumSpringGreen: "#FF00FA9A", MediumTurquoise: "#FF48D1CC", MediumVioletRed: "#FFC71585",
+  MidnightBlue: "#FF191970", MintCream: "#FFF5FFFA", MistyRose: "#FFFFE4E1", Moccasin: "#FFFFE4B5", NavajoWhite: "#FFFFDEAD",
+  Navy: "#FF000080", OldLace: "#FFFDF5E6", Olive: "#FF808000", OliveDrab: "#FF6B8E23", Orange: "#FFFFA500",
+  OrangeRed: "#FFFF4500", Orchid: "#FFDA70D6", PaleGoldenrod: "#FFEEE8AA", PaleGreen: "#FF98FB98", PaleTurquoise: "#FFAFEEEE",
+  PaleVioletRed: "#FFDB7093", PapayaWhip: "#FFFFEFD5", PeachPuff: "#FFFFDAB9", Peru: "#FFCD853F", Pink: "#FFFFC0CB",
+  Plum: "#FFDDA0DD", PowderBlue: "#FFB0E0E6", Purple: "#FF800080", Red: "#FFFF0000", RosyBrown: "#FFBC8F8F",
+  RoyalBlue: "#FF4169E1", SaddleBrown: "#FF8B4513", Salmon: "#FFFA8072", SandyBrown: "#FFF4A460", SeaGreen: "#FF2E8B57",
+  SeaShell: "#FFFFF5EE", Sienna: "#FFA0522D", Silver: "#FFC0C0C0", SkyBlue: "#FF87CEEB", SlateBlue: "#FF6A5ACD",
+  SlateGray: "#FF708090", Snow: "#FFFFFAFA", SpringGreen: "#FF00FF7F", SteelBlue: "#FF4682B4", Tan: "#FFD2B48C",
+  Teal: "#FF008080", Thistle: "#FFD8BFD8", Tomato: "#FFFF6347", Transparent: "#00FFFFFF", Turquoise: "#FF40E0D0",
+  Violet: "#FFEE82EE", Wheat: "#FFF5DEB3", White: "#FFFFFFFF", WhiteSmoke: "#FFF5F5F5", Yellow: "#FFFFFF00",
+  YellowGreen: "#FF9ACD32",
+};
+
+const namedColorsByLowerCase = new Map(Object.entries(namedColors).map(([name, hex]) => [name.toLowerCase(), hex]));
+
+// value of Color properties a set leaves malformed
+export const transparentColor: Rgba = { r: 0, g: 0, b: 0, a: 0 };
+
+// #RGB, #ARGB, #RRGGBB, #AARRGGBB or a named color; undefined if malformed
+export function parseColor(value: string): Rgba | undefined {
+  const trimmed = value.trim();
+  const hex = trimmed.startsWith("#") ? trimmed.substring(1) : namedColorsByLowerCase.get(trimmed.toLowerCase())?.substring(1);
+  if (hex === undefined || !/^[0-9a-fA-F]+$/.test(hex)) {
+    return undefined;
+  }
+  // short forms repeat each digit
+  const digits = hex.length === 3 || hex.length === 4 ? hex.replace(/./g, "$&$&") : hex;
+  if (digits.length !== 6 && digits.length !== 8) {
+    return undefined;
+  }
+  const argb = digits.length === 6 ? `FF${digits}` : digits;
+  const channel = (index: number) => parseInt(argb.substring(index * 2, index * 2 + 2), 16);
+  return { r: channel(1), g: channel(2), b: channel(3), a: channel(0) };
+}
+
+export function isColor(value: string): boolean {
+  return parseColor(value) !== undefined;
+}
+
+// TypeScript literal of an RGBA value
+export function formatColor(color: Rgba): string {
+  return `{ r: ${color.r}, g: ${color.g}, b: ${color.b}, a: ${color.a} }`;
+}
+
+// XAML #AARRGGBB form of an RGBA value, undefined if the value is not one
+export function colorToHex(value: unknown): string | undefined {
+  if (typeof value !== "object" || value === null) {
+    return undefined;
+  }
+  const color = value as Partial<Rgba>;
+  const channels = [color.a ?? 255, color.r, color.g, color.b];
+  if (channels.some((channel) => typeof channel !== "number" || !Number.isInteger(channel) || channel < 0 || channel > 255)) {
+    return undefined;
+  }
+  return `#${channels.map((channel) => channel!.toString(16).toUpperCase().padStart(2, "0")).join("")}`;
+}
+
+// #AARRGGBB form of a color string, transparent when malformed, as brushes hold their colors
+export function normalizeColor(value: string): string {
+  return colorToHex(parseColor(value) ?? transparentColor)!;
+}
+
+// generate the RGBA type and its conversion to a Noesis color string
+export function outputColorType(indentLevel: number): string {
+  const indent = " ".repeat(indentLevel);
+  return `// Color value with 0-255 channels; a is the alpha, 255 being opaque\n` +
+    `export type ${colorTypeName} = {\n` +
+    `${indent}r: number;\n` +
+    `${indent}g: number;\n` +
+    `${indent}b: number;\n` +
+    `${indent}a: number;\n` +
+    `}\n\n` +
+    `// #AARRGGBB string of a color, as Noesis parses it\n` +
+    `export function colorString(color: ${colorTypeName}): string {\n` +
+    `${indent}return "#" + [color.a, color.r, color.g, color.b].map((channel) => channel.toString(16).padStart(2, "0")).join("");\n` +
+    `}\n\n`;
+}
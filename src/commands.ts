@@ -0,0 +1,55 @@
+export const commandsFileName = "NoesisCommands.ts";
+
+// name of the handler parameter of every generated data context factory
+export const handlersParameter = "handlers";
+
+// registry key of the symbol generated commands carry their message under; Symbol.for gives export the same symbol
+export const commandMessageSymbol = "noesis2hzw.commandMessage";
+
+// shared command of a property a set leaves unset, or sets to a command type other than MessageCommand
+export const unsetCommand = "unsetCommand";
+
+export const messageCommandFunction = "messageCommand";
+
+// generate the commands shared by every data set, factory and loader; each carries its message, null for unsetCommand,
+// so export reads it back without calling the command
+export function outputCommandRuntime(indentLevel: number): string {
+  const indent = " ".repeat(indentLevel);
+  return `// Key of the message a generated command dispatches, null for ${unsetCommand}\n` +
+    `export const commandMessageKey: unique symbol = Symbol.for("${commandMessageSymbol}");\n\n` +
+    `// Command of a property a set leaves unset or sets to an unknown command type; does nothing\n` +
+    `export const ${unsetCommand} = Object.assign(() => undefined, { [commandMessageKey]: null });\n\n` +
+    `// Command dispatching to the handler of its message\n` +
+    `export function ${messageCommandFunction}<Message extends string>(handlers: Record<Message, (parameter?: unknown) => unknown>, message: Message) {\n` +
+    `${indent}return Object.assign((parameter?: unknown) => handlers[message](parameter), { [commandMessageKey]: message });\n` +
+    `}\n\n`;
+}
+
+export function commandMessageLiteral(message: string): string {
+  return JSON.stringify(message);
+}
+
+// type of the handlers a single data set needs
+export function commandHandlersType(messages: Iterable<string>): string {
+  const literals = Array.from(new Set(messages)).sort().map(commandMessageLiteral);
+  return `Pick<CommandHandlers, ${literals.length > 0 ? literals.join(" | ") : "never"}>`;
+}
+
+// generate the source of the command registry shared by all data sets
+export function outputCommands(messages: Iterable<string>, indentLevel: number): string {
+  const indent = " ".repeat(indentLevel);
+  const literals = Array.from(new Set(messages)).sort().map(commandMessageLiteral);
+  let output = `// Auto-generated MessageCommand messages used by Noesis data sets\n\n`;
+  output += `// Every Message of a MessageCommand in any data set\n`;
+  if (literals.length > 0) {
+    output += `export type CommandMessage =\n${literals.map((literal) => `${indent}| ${literal}`).join("\n")};\n\n`;
+  } else {
+    output += `export type CommandMessage = never;\n\n`;
+  }
+  output += `export type CommandHandler = (parameter?: unknown) => unknown;\n\n`;
+  output += `// One handler per message, supplied by game code when creating a data context\n`;
+  output += `export type CommandHandlers = {\n`;
+  output += `${indent}[message in CommandMessage]: CommandHandler;\n`;
+  output += `};\n`;
+  return output;
+}
@@ -0,0 +1,215 @@
+import fs from "node:fs";
+import path from "node:path";
+import { commandsFileName } from "./commands";
+import { dataSetIndexFileName } from "./dataSetIndex";
+import { reportDiagnostic, type Diagnostic } from "./diagnostics";
+import { imagesFileName } from "./images";
+import type { LocalizationOptions } from "./localization";
+import { typesFileName } from "./structures";
+import { dataFormats, defaultTypeConfig, defaultValues, enumStyles, outputLayouts, type DataFormat, type EnumStyle, type OutputLayout, type OutputNaming, type SetOptions, type TypeConfig, type ValueDefaults } from "./types";
+import { getErrorMessage } from "./xml";
+
+// looked up in the Noesis project root, in this order
+export const configFileNames = ["noesis2hzw.config.json", "noesis2hzw.config.ts"];
+
+export const defaultNaming: OutputNaming = {
+  typesFile: typesFileName,
+  commandsFile: commandsFileName,
+  imagesFile: imagesFileName,
+  dataSetIndexFile: dataSetIndexFileName,
+  dataContextExport: "createDataContext",
+};
+
+// project configuration; command line flags override it
+export type ProjectConfig = {
+  indentLevel?: number;
+  enumStyle?: EnumStyle;
+  layout?: OutputLayout;
+  dataFormat?: DataFormat;
+  prefixNamespaces?: boolean;
+  bindings?: boolean;
+  paths?: boolean;
+  schema?: boolean;
+  // relative to the project root
+  imageMap?: string;
+  // translationsPath is relative to the project root
+  localization?: Partial<LocalizationOptions>;
+  // Noesis subtypes mapped to TypeScript types; new names add built-in subtypes
+  typeMappings?: Record<string, string>;
+  // built-in enums added or replaced, with their Noesis item values
+  builtInEnums?: Record<string, Record<string, number>>;
+  // other names of built-in subtypes added or replaced, with the subtype they stand for
+  subTypeAliases?: Record<string, string>;
+  // values of unset String, Number and Boolean properties; any other key names an enum and its default item
+  defaults?: Record<string, string | number | boolean>;
+  naming?: Partial<OutputNaming>;
+  // per-set options, by set name
+  sets?: Record<string, SetOptions>;
+  // file the config was read from
+  file?: string;
+};
+
+const configKeys = ["indentLevel", "enumStyle", "layout", "dataFormat", "prefixNamespaces", "bindings", "paths", "schema", "imageMap", "localization", "typeMappings", "builtInEnums", "subTypeAliases", "defaults", "naming", "sets"];
+
+const valueDefaultKeys = ["String", "Number", "Boolean"];
+
+const namingFileKeys = ["typesFile", "commandsFile", "imagesFile", "dataSetIndexFile"];
+
+function isIdentifier(value: unknown): boolean {
+  return typeof value === "string" && /^[A-Za-z_$][\w$]*$/.test(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateNaming(config: ProjectConfig, file: string, diagnostics: Diagnostic[]) {
+  if (!isObject(config.naming)) {
+    reportDiagnostic(diagnostics, "error", "invalid-value", `naming must be an object: ${JSON.stringify(config.naming)}`, { file });
+    delete config.naming;
+    return;
+  }
+  const naming: Record<string, unknown> = config.naming;
+  Object.entries(naming).forEach(([key, value]) => {
+    if (namingFileKeys.includes(key)) {
+      if (typeof value !== "string" || !value.endsWith(".ts")) {
+        reportDiagnostic(diagnostics, "error", "invalid-value", `naming.${key} must be a .ts file name: ${JSON.stringify(value)}`, { file });
+        delete naming[key];
+      }
+    } else if (key === "dataContextExport") {
+      if (!isIdentifier(value)) {
+        reportDiagnostic(diagnostics, "error", "invalid-value", `naming.dataContextExport must be an identifier: ${JSON.stringify(value)}`, { file });
+        delete naming[key];
+      }
+    } else {
+      reportDiagnostic(diagnostics, "error", "invalid-value", `Unknown naming option ${key}`, { file });
+      delete naming[key];
+    }
+  });
+}
+
+function validateSets(config: ProjectConfig, file: string, diagnostics: Diagnostic[]) {
+  if (!isObject(config.sets)) {
+    reportDiagnostic(diagnostics, "error", "invalid-value", `sets must be an object: ${JSON.stringify(config.sets)}`, { file });
+    delete config.sets;
+    return;
+  }
+  const sets: Record<string, unknown> = config.sets;
+  Object.entries(sets).forEach(([setName, setOptions]) => {
+    if (!isObject(setOptions)) {
+      reportDiagnostic(diagnostics, "error", "invalid-value", `Options of set ${setName} must be an object: ${JSON.stringify(setOptions)}`, { file });
+      delete sets[setName];
+      return;
+    }
+    Object.entries(setOptions).forEach(([key, value]) => {
+      const valid = key === "exportName" ? isIdentifier(value) : key === "exclude" ? typeof value === "boolean" : false;
+      if (!valid) {
+        const expected = key === "exportName" ? "an identifier" : key === "exclude" ? "a boolean" : undefined;
+        reportDiagnostic(diagnostics, "error", "invalid-value", expected ? `sets.${setName}.${key} must be ${expected}: ${JSON.stringify(value)}` : `Unknown option ${key} of set ${setName}`, { file });
+        delete setOptions[key];
+      }
+    });
+  });
+}
+
+function validateConfig(config: ProjectConfig, file: string, diagnostics: Diagnostic[]) {
+  Object.keys(config).forEach((key) => {
+    if (!configKeys.includes(key)) {
+      reportDiagnostic(diagnostics, "warning", "invalid-value", `Unknown config option ${key}`, { file });
+    }
+  });
+  if (config.indentLevel !== undefined && !(Number.isInteger(config.indentLevel) && config.indentLevel >= 0)) {
+    reportDiagnostic(diagnostics, "error", "invalid-value", `indentLevel must be a non-negative integer: ${JSON.stringify(config.indentLevel)}`, { file });
+    delete config.indentLevel;
+  }
+  if (config.enumStyle !== undefined && !enumStyles.includes(config.enumStyle)) {
+    reportDiagnostic(diagnostics, "error", "invalid-value", `enumStyle must be one of ${enumStyles.join(", ")}: ${config.enumStyle}`, { file });
+    delete config.enumStyle;
+  }
+  if (config.layout !== undefined && !outputLayouts.includes(config.layout)) {
+    reportDiagnostic(diagnostics, "error", "invalid-value", `layout must be one of ${outputLayouts.join(", ")}: ${config.layout}`, { file });
+    delete config.layout;
+  }
+  if (config.dataFormat !== undefined && !dataFormats.includes(config.dataFormat)) {
+    reportDiagnostic(diagnostics, "error", "invalid-value", `dataFormat must be one of ${dataFormats.join(", ")}: ${config.dataFormat}`, { file });
+    delete config.dataFormat;
+  }
+  Object.entries(config.defaults ?? {}).forEach(([key, value]) => {
+    const expected = key === "String" ? "string" : key === "Number" ? "number" : key === "Boolean" ? "boolean" : "string";
+    if (typeof value !== expected) {
+      reportDiagnostic(diagnostics, "error", "invalid-value", `Default of ${key} must be a ${expected}: ${JSON.stringify(value)}`, { file });
+      delete config.defaults![key];
+    }
+  });
+  Object.entries(config.subTypeAliases ?? {}).forEach(([alias, subType]) => {
+    if (typeof subType !== "string") {
+      reportDiagnostic(diagnostics, "error", "invalid-value", `Subtype alias ${alias} must name a subtype: ${JSON.stringify(subType)}`, { file });
+      delete config.subTypeAliases![alias];
+    }
+  });
+  if (config.naming !== undefined) {
+    validateNaming(config, file, diagnostics);
+  }
+  if (config.sets !== undefined) {
+    validateSets(config, file, diagnostics);
+  }
+}
+
+// the project config, or an empty one when the project has none
+export async function readProjectConfig(projectPath: string, diagnostics: Diagnostic[]): Promise<ProjectConfig> {
+  const file = configFileNames.map((name) => path.join(projectPath, name)).find((candidate) => fs.existsSync(candidate));
+  if (!file) {
+    return {};
+  }
+  let config: unknown;
+  try {
+    config = file.endsWith(".json") ? JSON.parse(fs.readFileSync(file, "utf8")) : (await import(path.resolve(file))).default;
+  } catch (e) {
+    reportDiagnostic(diagnostics, "error", "read-error", `Error reading project config: ${getErrorMessage(e)}`, { file });
+    return {};
+  }
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    reportDiagnostic(diagnostics, "error", "invalid-value", "Project config must be an object", { file });
+    return {};
+  }
+  validateConfig(config as ProjectConfig, file, diagnostics);
+  return { ...config, file };
+}
+
+// a path from the config, relative to the project root
+export function configPath(projectPath: string, configValue: string | undefined): string | undefined {
+  return configValue === undefined ? undefined : path.resolve(projectPath, configValue);
+}
+
+// built-in structures and enum defaults with the config applied
+export function configTypes(config: ProjectConfig): TypeConfig {
+  if (!config.typeMappings && !config.builtInEnums && !config.subTypeAliases && !config.defaults) {
+    return defaultTypeConfig;
+  }
+  const enumDefaults: Record<string, string> = { ...defaultTypeConfig.enumDefaults };
+  Object.entries(config.defaults ?? {}).forEach(([key, value]) => {
+    if (!valueDefaultKeys.includes(key)) {
+      enumDefaults[key] = `${value}`;
+    }
+  });
+  // a replaced FontFamily need not have the default font
+  if (config.builtInEnums?.FontFamily && !config.defaults?.FontFamily && !(defaultTypeConfig.enumDefaults.FontFamily! in config.builtInEnums.FontFamily)) {
+    delete enumDefaults.FontFamily;
+  }
+  return {
+    builtInEnums: { ...defaultTypeConfig.builtInEnums, ...config.builtInEnums },
+    builtInSubTypes: { ...defaultTypeConfig.builtInSubTypes, ...config.typeMappings },
+    subTypeAliases: { ...defaultTypeConfig.subTypeAliases, ...config.subTypeAliases },
+    enumDefaults,
+    file: config.file,
+  };
+}
+
+export function configValueDefaults(config: ProjectConfig): ValueDefaults {
+  const defaults = config.defaults ?? {};
+  return {
+    String: typeof defaults.String === "string" ? defaults.String : defaultValues.String,
+    Number: typeof defaults.Number === "number" ? defaults.Number : defaultValues.Number,
+    Boolean: typeof defaults.Boolean === "boolean" ? defaults.Boolean : defaultValues.Boolean,
+  };
+}
@@ -0,0 +1,349 @@
+import { bindingClassName, bindingsFileName, outputBindingFactory } from "./bindings";
+import { commandHandlersType, handlersParameter, messageCommandFunction, unsetCommand } from "./commands";
+import { imageSourceFunction } from "./images";
+import { commonImportPath } from "./layout";
+import { lookupFunction, stringKeyCheckFunction, stringsFileName } from "./localization";
+import { structureTypeName, type NoesisProperty, type NoesisStructureMap, type OutputOptions } from "./types";
+
+// shared runtime of the loaders of data sets in the JSON data format
+export const dataLoaderFileName = "NoesisData.ts";
+
+// how a value of the JSON data becomes its typed value; values without one are used as they are
+export type ValueShape =
+  | { type: "structure"; name: string }
+  | { type: "collection"; item?: ValueShape }
+  | { type: "enum"; name: string }
+  | { type: "command" }
+  | { type: "image" }
+  | { type: "string" };
+
+export type DataShapeOptions = {
+  // numeric enums hold Noesis values, while the JSON holds item names
+  numericEnums: boolean;
+  // mapped images become ImageSource objects
+  mappedImages: boolean;
+  // strings resolve through the lookup of their key
+  lookupStrings: boolean;
+};
+
+// JSON data file of a set, e.g. ShopMenu.json, or ShopMenu.fr.json for a locale
+export function dataFileName(outputFile: string, locale?: string): string {
+  return outputFile.replace(".ts", locale ? `.${locale}.json` : ".json");
+}
+
+type ShapeContext = {
+  structures: NoesisStructureMap;
+  options: DataShapeOptions;
+  // property shapes of every class visited, by qualified name; undefined while the class is being visited
+  shapes: Map<string, Map<string, ValueShape> | undefined>;
+};
+
+function valueShape(context: ShapeContext, structureType: string): ValueShape | undefined {
+  const structure = context.structures.get(structureType);
+  if (structure?.type === "Class") {
+    return classShapes(context, structure.qualifiedName) ? { type: "structure", name: structure.qualifiedName } : undefined;
+  } else if (structure?.type === "Enum") {
+    return context.options.numericEnums && structure.qualifiedName !== "FontFamily" ? { type: "enum", name: structure.qualifiedName } : undefined;
+  }
+  switch (structureType) {
+    case "String":
+      return context.options.lookupStrings ? { type: "string" } : undefined;
+    case "BitmapImage":
+      return context.options.mappedImages ? { type: "image" } : undefined;
+    case "MessageCommand":
+      return { type: "command" };
+  }
+  return undefined;
+}
+
+function propertyShape(context: ShapeContext, property: NoesisProperty): ValueShape | undefined {
+  switch (property.type) {
+    case "String":
+      return valueShape(context, "String");
+    case "Enum":
+    case "Object":
+      return valueShape(context, property.subType);
+    case "Image":
+      return valueShape(context, "BitmapImage");
+    case "Command":
+      return valueShape(context, "MessageCommand");
+    case "Collection": {
+      // every collection is listed, as any of them may be paged
+      const item = valueShape(context, property.subType);
+      return item ? { type: "collection", item } : { type: "collection" };
+    }
+  }
+  return undefined;
+}
+
+// whether any value of a class needs rehydrating, recording the shapes of its properties
+function classShapes(context: ShapeContext, qualifiedName: string): boolean {
+  if (context.shapes.has(qualifiedName)) {
+    // a class reached again while being visited is assumed to need rehydrating
+    return context.shapes.get(qualifiedName)?.size !== 0;
+  }
+  const structure = context.structures.get(qualifiedName);
+  if (structure?.type !== "Class") {
+    return false;
+  }
+  context.shapes.set(qualifiedName, undefined);
+  const properties = new Map<string, ValueShape>();
+  structure.properties.forEach((property, propName) => {
+    const shape = propertyShape(context, property);
+    if (shape) {
+      properties.set(propName, shape);
+    }
+  });
+  context.shapes.set(qualifiedName, properties);
+  return properties.size > 0;
+}
+
+// property shapes of every class the root reaches whose values need rehydrating
+export function dataShapes(structures: NoesisStructureMap, rootStructure: string, options: DataShapeOptions): Map<string, Map<string, ValueShape>> {
+  const context: ShapeContext = { structures, options, shapes: new Map() };
+  classShapes(context, rootStructure);
+  const shapes = new Map<string, Map<string, ValueShape>>();
+  context.shapes.forEach((properties, name) => {
+    if (properties && properties.size > 0) {
+      shapes.set(name, properties);
+    }
+  });
+  return shapes;
+}
+
+// enums named by the shapes, which the loader imports
+export function shapeEnums(shapes: Map<string, Map<string, ValueShape>>): Set<string> {
+  const enums = new Set<string>();
+  const visit = (shape: ValueShape | undefined) => {
+    if (shape?.type === "enum") {
+      enums.add(shape.name);
+    } else if (shape?.type === "collection") {
+      visit(shape.item);
+    }
+  };
+  shapes.forEach((properties) => properties.forEach(visit));
+  return enums;
+}
+
+// whether any shape is of the given type
+export function usesShape(shapes: Map<string, Map<string, ValueShape>>, type: ValueShape["type"]): boolean {
+  let found = false;
+  const visit = (shape: ValueShape | undefined) => {
+    found ||= shape?.type === type;
+    if (shape?.type === "collection") {
+      visit(shape.item);
+    }
+  };
+  shapes.forEach((properties) => properties.forEach(visit));
+  return found;
+}
+
+function formatShape(structures: NoesisStructureMap, shape: ValueShape): string {
+  switch (shape.type) {
+    case "structure":
+      return `{ type: "structure", name: ${JSON.stringify(shape.name)} }`;
+    case "collection":
+      return shape.item ? `{ type: "collection", item: ${formatShape(structures, shape.item)} }` : `{ type: "collection" }`;
+    case "enum":
+      return `{ type: "enum", values: ${structureTypeName(structures, shape.name)} }`;
+    default:
+      return `{ type: "${shape.type}" }`;
+  }
+}
+
+// generate the shapes table of a set loader
+export function outputDataShapes(structures: NoesisStructureMap, shapes: Map<string, Map<string, ValueShape>>, indentLevel: number): string {
+  const indent = " ".repeat(indentLevel);
+  let output = `const shapes: DataShapes = {\n`;
+  shapes.forEach((properties, name) => {
+    output += `${indent}${JSON.stringify(name)}: {\n`;
+    properties.forEach((shape, propName) => {
+      output += `${indent.repeat(2)}${JSON.stringify(propName)}: ${formatShape(structures, shape)},\n`;
+    });
+    output += `${indent}},\n`;
+  });
+  output += `};\n`;
+  return output;
+}
+
+export type DataLoaderModule = {
+  rootStructure: string;
+  rootElement: string;
+  setName: string;
+  exportName: string;
+  // JSON data file the loader is meant for
+  dataFile: string;
+  commandMessages: Set<string>;
+  shapes: Map<string, Map<string, ValueShape>>;
+  // imports of the types and enums the loader names
+  imports: string;
+};
+
+// generate the typed loader of a set in the JSON data format
+export function outputDataLoader(structures: NoesisStructureMap, module: DataLoaderModule, options: OutputOptions, description: string): string {
+  const indent = " ".repeat(options.indentLevel);
+  const rootTypeName = structureTypeName(structures, module.rootStructure);
+  const handlersType = commandHandlersType(module.commandMessages);
+  const usesImages = usesShape(module.shapes, "image");
+  const usesLookup = usesShape(module.shapes, "string");
+  let output = `// Auto-generated loader of Noesis data set: ${description}, serialized to ${module.dataFile}\n\n`;
+  output += module.imports;
+  output += `import type { CommandHandlers } from "./${options.naming.commandsFile.replace(".ts", "")}";\n`;
+  output += `import { loadDataSet, loadPagedDataSet, type DataSetLoader, type DataShapes, type PagedDataContext } from "./${dataLoaderFileName.replace(".ts", "")}";\n`;
+  if (usesImages) {
+    output += `import { imageManifest, ${imageSourceFunction}, type ImagePath } from "./${options.naming.imagesFile.replace(".ts", "")}";\n`;
+  }
+  if (options.bindings) {
+    output += `import { ${bindingClassName(rootTypeName)} } from "./${bindingsFileName.replace(".ts", "")}";\n`;
+  }
+  if (usesLookup) {
+    output += `import { ${stringKeyCheckFunction}, ${lookupFunction} } from "./${stringsFileName.replace(".ts", "")}";\n`;
+  }
+  output += `\n`;
+  output += outputDataShapes(structures, module.shapes, options.indentLevel);
+  output += `\n`;
+  output += `function dataSetLoader(${handlersParameter}: ${handlersType}): DataSetLoader {\n`;
+  output += `${indent}return {\n`;
+  output += `${indent.repeat(2)}shapes,\n`;
+  output += `${indent.repeat(2)}root: ${JSON.stringify(module.rootStructure)},\n`;
+  output += `${indent.repeat(2)}rootPath: ${JSON.stringify(module.rootElement)},\n`;
+  output += `${indent.repeat(2)}${handlersParameter},\n`;
+  if (usesImages) {
+    // images missing from the asset map stay path strings, as in the TypeScript data format
+    output += `${indent.repeat(2)}image: (path) => imageManifest[path as ImagePath]?.assetId !== undefined ? ${imageSourceFunction}(path as ImagePath) : path,\n`;
+  }
+  if (usesLookup) {
+    output += `${indent.repeat(2)}lookup: (path) => {\n`;
+    output += `${indent.repeat(3)}const key = \`${module.setName}.\${path}\`;\n`;
+    output += `${indent.repeat(3)}return ${stringKeyCheckFunction}(key) ? ${lookupFunction}(key) : undefined;\n`;
+    output += `${indent.repeat(2)}},\n`;
+  }
+  output += `${indent}};\n`;
+  output += `}\n\n`;
+  output += `// data context of the text of ${module.dataFile}, e.g. read from a Horizon text asset\n`;
+  output += `export function ${module.exportName}(${handlersParameter}: ${handlersType}, json: string): ${rootTypeName} {\n`;
+  output += `${indent}return loadDataSet<${rootTypeName}>(json, dataSetLoader(${handlersParameter}));\n`;
+  output += `}\n\n`;
+  output += `// data context whose collections start with their first pageSize items; loadNextPage adds the next ones\n`;
+  output += `export function createPagedDataContext(${handlersParameter}: ${handlersType}, json: string, pageSize: number): PagedDataContext<${rootTypeName}> {\n`;
+  output += `${indent}return loadPagedDataSet<${rootTypeName}>(json, dataSetLoader(${handlersParameter}), pageSize);\n`;
+  output += `}\n`;
+  if (options.bindings) {
+    output += `\n${outputBindingFactory(rootTypeName, handlersType, module.exportName, options.indentLevel, "json")}`;
+  }
+  return output;
+}
+
+// generate the runtime shared by every set loader: JSON parsing, rehydration and paging
+export function outputDataLoaderRuntime(options: OutputOptions): string {
+  const indent = " ".repeat(options.indentLevel);
+  let output = `// Auto-generated runtime of the loaders of Noesis data sets in the JSON data format\n\n`;
+  output += `import type { CommandHandler } from "./${options.naming.commandsFile.replace(".ts", "")}";\n`;
+  output += `import { ${messageCommandFunction}, ${unsetCommand} } from "${commonImportPath(options)}";\n\n`;
+  output += `// How a value of the JSON data becomes its typed value; values without a shape are used as they are\n`;
+  output += `export type ValueShape =\n`;
+  output += `${indent}| { type: "structure"; name: string }\n`;
+  output += `${indent}| { type: "collection"; item?: ValueShape }\n`;
+  output += `${indent}| { type: "enum"; values: Record<string, unknown> }\n`;
+  output += `${indent}| { type: "command" }\n`;
+  output += `${indent}| { type: "image" }\n`;
+  output += `${indent}| { type: "string" };\n\n`;
+  output += `// Shapes of the properties needing rehydration, by structure\n`;
+  output += `export type DataShapes = Record<string, Record<string, ValueShape>>;\n\n`;
+  output += `export type DataSetLoader = {\n`;
+  output += `${indent}shapes: DataShapes;\n`;
+  output += `${indent}// root structure, and the property path of the root, which string keys start with\n`;
+  output += `${indent}root: string;\n`;
+  output += `${indent}rootPath: string;\n`;
+  output += `${indent}handlers: Record<string, CommandHandler>;\n`;
+  output += `${indent}// ImageSource of an image path, when images are mapped to Horizon texture assets\n`;
+  output += `${indent}image?: (path: string) => unknown;\n`;
+  output += `${indent}// string of the current locale for a property path, when strings are looked up\n`;
+  output += `${indent}lookup?: (path: string) => string | undefined;\n`;
+  output += `};\n\n`;
+  output += `export type PagedDataContext<T> = {\n`;
+  output += `${indent}dataContext: T;\n`;
+  output += `${indent}// whether items of a collection of the data context are still to be loaded\n`;
+  output += `${indent}hasMorePages(collection: unknown[]): boolean;\n`;
+  output += `${indent}// add the next page of items to a collection, returning whether more are left\n`;
+  output += `${indent}loadNextPage(collection: unknown[]): boolean;\n`;
+  output += `};\n\n`;
+  output += `// items of a paged collection not added yet\n`;
+  output += `type PendingItems = {\n`;
+  output += `${indent}items: unknown[];\n`;
+  output += `${indent}shape: ValueShape | undefined;\n`;
+  output += `${indent}path: string;\n`;
+  output += `${indent}loaded: number;\n`;
+  output += `};\n\n`;
+  output += `type Rehydration = {\n`;
+  output += `${indent}loader: DataSetLoader;\n`;
+  output += `${indent}// items of every collection up front when undefined\n`;
+  output += `${indent}pageSize?: number;\n`;
+  output += `${indent}pending: Map<unknown[], PendingItems>;\n`;
+  output += `};\n\n`;
+  output += `function rehydrate(rehydration: Rehydration, value: unknown, shape: ValueShape | undefined, path: string): unknown {\n`;
+  output += `${indent}const loader = rehydration.loader;\n`;
+  output += `${indent}if (shape?.type === "command") {\n`;
+  output += `${indent.repeat(2)}// unset commands are null\n`;
+  output += `${indent.repeat(2)}return typeof value === "string" && loader.handlers[value] ? ${messageCommandFunction}(loader.handlers, value) : ${unsetCommand};\n`;
+  output += `${indent}}\n`;
+  output += `${indent}if (shape === undefined || value === null || value === undefined) {\n`;
+  output += `${indent.repeat(2)}return value;\n`;
+  output += `${indent}}\n`;
+  output += `${indent}switch (shape.type) {\n`;
+  output += `${indent.repeat(2)}case "structure": {\n`;
+  output += `${indent.repeat(3)}const data = value as Record<string, unknown>;\n`;
+  output += `${indent.repeat(3)}const properties = loader.shapes[shape.name] ?? {};\n`;
+  output += `${indent.repeat(3)}for (const name in properties) {\n`;
+  output += `${indent.repeat(4)}data[name] = rehydrate(rehydration, data[name], properties[name], \`\${path}.\${name}\`);\n`;
+  output += `${indent.repeat(3)}}\n`;
+  output += `${indent.repeat(3)}return data;\n`;
+  output += `${indent.repeat(2)}}\n`;
+  output += `${indent.repeat(2)}case "collection": {\n`;
+  output += `${indent.repeat(3)}const items = value as unknown[];\n`;
+  output += `${indent.repeat(3)}const count = Math.min(rehydration.pageSize ?? items.length, items.length);\n`;
+  output += `${indent.repeat(3)}const collection = items.slice(0, count).map((item, index) => rehydrate(rehydration, item, shape.item, \`\${path}[\${index}]\`));\n`;
+  output += `${indent.repeat(3)}if (count < items.length) {\n`;
+  output += `${indent.repeat(4)}rehydration.pending.set(collection, { items, shape: shape.item, path, loaded: count });\n`;
+  output += `${indent.repeat(3)}}\n`;
+  output += `${indent.repeat(3)}return collection;\n`;
+  output += `${indent.repeat(2)}}\n`;
+  output += `${indent.repeat(2)}case "enum":\n`;
+  output += `${indent.repeat(3)}return shape.values[\`\${value}\`] ?? value;\n`;
+  output += `${indent.repeat(2)}case "image":\n`;
+  output += `${indent.repeat(3)}return value === "" || !loader.image ? value : loader.image(\`\${value}\`);\n`;
+  output += `${indent.repeat(2)}case "string":\n`;
+  output += `${indent.repeat(3)}return loader.lookup?.(path) ?? value;\n`;
+  output += `${indent}}\n`;
+  output += `}\n\n`;
+  output += `// data context of JSON data, with every collection loaded\n`;
+  output += `export function loadDataSet<T>(json: string, loader: DataSetLoader): T {\n`;
+  output += `${indent}const rehydration: Rehydration = { loader, pending: new Map() };\n`;
+  output += `${indent}return rehydrate(rehydration, JSON.parse(json), { type: "structure", name: loader.root }, loader.rootPath) as T;\n`;
+  output += `}\n\n`;
+  output += `// data context of JSON data, with the items of every collection loaded a page at a time\n`;
+  output += `export function loadPagedDataSet<T>(json: string, loader: DataSetLoader, pageSize: number): PagedDataContext<T> {\n`;
+  output += `${indent}const rehydration: Rehydration = { loader, pageSize: Math.max(1, pageSize), pending: new Map() };\n`;
+  output += `${indent}const dataContext = rehydrate(rehydration, JSON.parse(json), { type: "structure", name: loader.root }, loader.rootPath) as T;\n`;
+  output += `${indent}return {\n`;
+  output += `${indent.repeat(2)}dataContext,\n`;
+  output += `${indent.repeat(2)}hasMorePages: (collection) => rehydration.pending.has(collection),\n`;
+  output += `${indent.repeat(2)}loadNextPage: (collection) => {\n`;
+  output += `${indent.repeat(3)}const pending = rehydration.pending.get(collection);\n`;
+  output += `${indent.repeat(3)}if (!pending) {\n`;
+  output += `${indent.repeat(4)}return false;\n`;
+  output += `${indent.repeat(3)}}\n`;
+  output += `${indent.repeat(3)}const end = Math.min(pending.loaded + rehydration.pageSize!, pending.items.length);\n`;
+  output += `${indent.repeat(3)}for (let index = pending.loaded; index < end; index++) {\n`;
+  output += `${indent.repeat(4)}collection.push(rehydrate(rehydration, pending.items[index], pending.shape, \`\${pending.path}[\${index}]\`));\n`;
+  output += `${indent.repeat(3)}}\n`;
+  output += `${indent.repeat(3)}pending.loaded = end;\n`;
+  output += `${indent.repeat(3)}if (end === pending.items.length) {\n`;
+  output += `${indent.repeat(4)}rehydration.pending.delete(collection);\n`;
+  output += `${indent.repeat(3)}}\n`;
+  output += `${indent.repeat(3)}return end < pending.items.length;\n`;
+  output += `${indent.repeat(2)}},\n`;
+  output += `${indent}};\n`;
+  output += `}\n`;
+  return output;
+}
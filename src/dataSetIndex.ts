@@ -0,0 +1,71 @@
+import type { GeneratedDataSet } from "./datasets";
+import { dataSetImports, outputImports } from "./layout";
+import { structureTypeName, type NoesisStructureMap, type OutputOptions } from "./types";
+
+export const dataSetIndexFileName = "NoesisDataSets.ts";
+
+// object key for a set name, quoting names that are not identifiers
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function factoryAlias(name: string): string {
+  return `create${name.replace(/[^\w$]/g, "_")}`;
+}
+
+// generate the index of every data set: a registry type keyed by set name, the factories and lazily created data contexts
+export function outputDataSetIndex(structures: NoesisStructureMap, dataSets: GeneratedDataSet[], options: OutputOptions): string {
+  const indent = " ".repeat(options.indentLevel);
+  const sets = dataSets
+    .map((dataSet) => ({ name: dataSet.setFile.replace(".xaml", ""), dataSet }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  let output = `// Auto-generated index of the Noesis data sets\n\n`;
+  output += outputImports(dataSetImports(structures, new Set(sets.map(({ dataSet }) => dataSet.rootStructure)), options));
+  output += `import type { CommandHandlers } from "./${options.naming.commandsFile.replace(".ts", "")}";\n`;
+  sets.forEach(({ name, dataSet }) => {
+    const alias = factoryAlias(name);
+    const imported = dataSet.exportName === alias ? alias : `${dataSet.exportName} as ${alias}`;
+    output += `import { ${imported} } from "./${dataSet.outputFile.replace(".ts", "")}";\n`;
+  });
+  output += `\n`;
+
+  output += `// Root structure of every data set, keyed by set name\n`;
+  output += `export type DataSets = {\n`;
+  sets.forEach(({ name, dataSet }) => {
+    output += `${indent}${propertyName(name)}: ${structureTypeName(structures, dataSet.rootStructure)};\n`;
+  });
+  output += `};\n\n`;
+  output += `export type DataSetName = keyof DataSets;\n\n`;
+  output += `export const dataSetNames: DataSetName[] = [${sets.map(({ name }) => JSON.stringify(name)).join(", ")}];\n\n`;
+
+  // loaders of the JSON data format also take the data
+  const json = options.dataFormat === "json";
+  output += `// Data context factory of every data set\n`;
+  output += `export const dataSetFactories: { [name in DataSetName]: (handlers: CommandHandlers${json ? ", json: string" : ""}) => DataSets[name] } = {\n`;
+  sets.forEach(({ name }) => {
+    output += `${indent}${propertyName(name)}: ${factoryAlias(name)},\n`;
+  });
+  output += `};\n\n`;
+
+  output += `// Registry of every data set; a data context is created on first access and then reused\n`;
+  if (json) {
+    output += `// json gives the text of the JSON data of a set, e.g. read from a Horizon text asset\n`;
+  }
+  output += `export function createDataSets(handlers: CommandHandlers${json ? ", json: (name: DataSetName) => string" : ""}): DataSets {\n`;
+  output += `${indent}const created: Partial<DataSets> = {};\n`;
+  output += `${indent}return {\n`;
+  sets.forEach(({ name }) => {
+    const key = JSON.stringify(name);
+    output += `${indent.repeat(2)}get ${propertyName(name)}() {\n`;
+    output += `${indent.repeat(3)}return created[${key}] ??= dataSetFactories[${key}](handlers${json ? `, json(${key})` : ""});\n`;
+    output += `${indent.repeat(2)}},\n`;
+  });
+  output += `${indent}};\n`;
+  output += `}\n\n`;
+
+  output += `// Data context of a set chosen by name\n`;
+  output += `export function getDataSet<Name extends DataSetName>(dataSets: DataSets, name: Name): DataSets[Name] {\n`;
+  output += `${indent}return dataSets[name];\n`;
+  output += `}\n`;
+  return output;
+}
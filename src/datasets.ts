@@ -1,114 +1,242 @@
 import fs from "node:fs";
-import xml2js from "xml2js";
 import util from "node:util";
-import { stripPrefix, parseNumbers, parseBooleans } from "xml2js/lib/processors";
-import { noesisSubtypeToNoesisTypeConverter, type NoesisProperty, type NoesisStructureMap, type NoesisType } from "./types";
+import { nodeLocation, reportDiagnostic, type Diagnostic } from "./diagnostics";
+import { bindingClassName, bindingsFileName, outputBindingFactory } from "./bindings";
+import { brushElementNames, gradientBrushValue, processGradientBrush } from "./brushes";
+import { formatColor, normalizeColor, parseColor, transparentColor } from "./colors";
+import { commandHandlersType, commandMessageLiteral, handlersParameter, messageCommandFunction, unsetCommand } from "./commands";
+import { dataFileName, dataShapes, outputDataLoader, shapeEnums } from "./dataLoader";
+import { imageFileExists, imageSourceFunction, imageUriPath, type ImageAssetMap } from "./images";
+import { addImport, commonImportPath, dataSetImports, outputImports } from "./layout";
+import { localizedFileName, lookupFunction, stringKey, stringsFileName, type ExtractedString, type LocaleTranslations, type Localization } from "./localization";
+import { validateDataSet } from "./setValidation";
+import { declaredNamespaces, getErrorMessage, getErrorPosition, parseBooleanValue, parseNoesisXml, parseNumberValue } from "./xml";
+import { enumMemberAccess, fontFamilyDefault, propertyKey, resolveElementStructure, structureElementName, structureTypeName, type NoesisEnum, type NoesisProperty, type NoesisStructureMap, type NoesisType, type OutputOptions, type ValueDefaults } from "./types";
 
-function processCommand(indent: string, commandData: any, indentLevel: number): string {
-  const subIndent = indent + " ".repeat(indentLevel);
-  return `(parameter?: unknown) => {\n` +
-    `${subIndent}console.log("${commandData.Message}", parameter ? parameter : "");\n` +
-    `${indent}}`;
+type DataSetContext = {
+  structures: NoesisStructureMap;
+  dataPath: string;
+  file: string;
+  indentLevel: number;
+  // values of unset String, Number and Boolean properties
+  defaults: ValueDefaults;
+  diagnostics: Diagnostic[];
+  // every MessageCommand message in the set
+  commandMessages: Set<string>;
+  // qualified names of the structures the generated source names, so only those are imported
+  typeReferences: Set<string>;
+  // shared commands the generated source names
+  commandReferences: Set<string>;
+  // Horizon texture asset IDs; without them images stay path strings
+  imageAssets: ImageAssetMap | undefined;
+  // every image path in the set
+  images: Set<string>;
+  usesImageSource: boolean;
+  // set name, prefixing the keys of extracted strings
+  setName: string;
+  // String values are extracted when given
+  localization: Localization | undefined;
+  // translations inlined into a per-locale data set
+  locale: LocaleTranslations | undefined;
+  strings: ExtractedString[];
+  usesLookup: boolean;
+};
+
+function commandMessage(context: DataSetContext, commandData: any): string {
+  const message = `${commandData.Message ?? ""}`;
+  context.commandMessages.add(message);
+  return message;
+}
+
+function processCommand(context: DataSetContext, commandData: any): string {
+  context.commandReferences.add(messageCommandFunction);
+  return `${messageCommandFunction}(${handlersParameter}, ${commandMessageLiteral(commandMessage(context, commandData))})`;
+}
+
+function processUnsetCommand(context: DataSetContext): string {
+  context.commandReferences.add(unsetCommand);
+  return unsetCommand;
+}
+
+// path of an image relative to the Noesis project root, undefined when the value has none
+function imagePathValue(context: DataSetContext, imageSource: string, description: string, node: any, path: string): string | undefined {
+  const imagePath = imageUriPath(imageSource);
+  if (!imagePath) {
+    reportDiagnostic(context.diagnostics, "warning", "missing-image-path", `Image path not found for ${description}: ${imageSource}`, nodeLocation(context.file, node), path);
+    return undefined;
+  }
+  context.images.add(imagePath);
+  if (!imageFileExists(context.dataPath, imagePath)) {
+    reportDiagnostic(context.diagnostics, "warning", "missing-image-file", `Image ${imagePath} of ${description} does not exist in the Noesis project`, nodeLocation(context.file, node), path);
+  }
+  if (context.imageAssets && !context.imageAssets.has(imagePath)) {
+    reportDiagnostic(context.diagnostics, "warning", "unmapped-image", `Image ${imagePath} of ${description} has no Horizon texture asset in the image asset map`, nodeLocation(context.file, node), path);
+  }
+  return imagePath;
+}
+
+// an ImageSource for mapped images, otherwise the path string
+function processImage(context: DataSetContext, imageSource: string, description: string, node: any, path: string): string {
+  const imagePath = imagePathValue(context, imageSource, description, node, path);
+  if (!imagePath) {
+    return `""`;
+  }
+  if (!context.imageAssets?.has(imagePath)) {
+    return `"${imagePath}"`;
+  }
+  context.usesImageSource = true;
+  return `${imageSourceFunction}("${imagePath}")`;
+}
+
+// key of a String value extracted for localization, undefined when strings are not extracted
+function extractString(context: DataSetContext, text: string, path: string, property?: NoesisProperty & { type: "String" }): string | undefined {
+  if (!context.localization || text === "") {
+    return undefined;
+  }
+  const key = stringKey(context.setName, path);
+  context.strings.push({ key, setName: context.setName, text, minWordCount: property?.stringMinWordCount, maxWordCount: property?.stringMaxWordCount });
+  return key;
+}
+
+// a literal, or for extracted strings a lookup or the translation of the locale being generated
+function processString(context: DataSetContext, text: string, path: string, property?: NoesisProperty & { type: "String" }): string {
+  const key = extractString(context, text, path, property);
+  if (key === undefined) {
+    return `"${escapeString(text)}"`;
+  }
+  if (context.localization?.output === "lookup") {
+    context.usesLookup = true;
+    return `${lookupFunction}(${JSON.stringify(key)})`;
+  }
+  const translation = context.locale?.strings.get(key);
+  return translation !== undefined ? JSON.stringify(translation) : `"${escapeString(text)}"`;
 }
 
-function processArray(structures: NoesisStructureMap, indent: string, itemType: string, itemsData: any[], indentLevel: number): string {
+function processArray(context: DataSetContext, indent: string, path: string, itemType: string, itemsData: any[]): string {
   let result = "";
-  const subIndent = indent + " ".repeat(indentLevel);
-  itemsData.forEach((itemData) => {
-    const itemString = `${subIndent}${processDataStructure(structures, subIndent, itemType, itemData, indentLevel)}`;
+  const subIndent = indent + " ".repeat(context.indentLevel);
+  itemsData.forEach((itemData, index) => {
+    const itemString = `${subIndent}${processDataStructure(context, subIndent, `${path}[${index}]`, itemType, itemData)}`;
     result += `${itemString},\n`;
   });
   return result;
 }
 
+// a Number value, the default for malformed values, which the set validation reports
+function numberValue(context: DataSetContext, value: unknown): number {
+  return parseNumberValue(value) ?? context.defaults.Number;
+}
+
+// a Boolean value, the default for malformed values
+function booleanValue(context: DataSetContext, value: unknown): boolean {
+  return parseBooleanValue(value) ?? context.defaults.Boolean;
+}
+
+// an enum item, the enum's default item for values that are not one of its items
+function enumItem(structures: NoesisStructureMap, enumName: string, value: unknown): string {
+  const structure = structures.get(enumName);
+  return structure?.type !== "Enum" || structure.items.has(`${value}`) ? `${value}` : structure.defaultItem;
+}
+
+// enum of an Enum property; readStructures leaves out properties of unknown enums, so a missing one is reported and skipped
+function propertyEnum(context: DataSetContext, enumName: string, path: string, data: any): NoesisEnum | undefined {
+  const structure = context.structures.get(enumName);
+  if (structure?.type !== "Enum") {
+    reportDiagnostic(context.diagnostics, "error", "unknown-structure-type", `Unknown enum type ${enumName}`, nodeLocation(context.file, data), path);
+    return undefined;
+  }
+  return structure;
+}
+
 function escapeString(str: string): string {
   return str.replace(/"/g, '\\"');
 } 
 
-function processDataStructure(structures: NoesisStructureMap, indent: string, structureType: string, data: any, indentLevel: number): string {
+// element of an Object property, undefined when the set leaves the property unset
+function objectPropertyElement(structures: NoesisStructureMap, data: any, structureName: string, propName: string, subType: string): any {
+  return data[`${structureName}.${propName}`]?.[0]?.[structureElementName(structures, subType)]?.[0];
+}
+
+function processDataStructure(context: DataSetContext, indent: string, path: string, structureType: string, data: any): string {
   let result = "";
-  const structureNameParts = structureType.split(".");
-  const structureName = structureNameParts[structureNameParts.length - 1]!;
-  const structure = structures.get(structureName);
+  const indentLevel = context.indentLevel;
+  const structure = context.structures.get(structureType);
+  const structureName = structureElementName(context.structures, structureType);
   if (structure?.type === "Class") {
     result += "{\n";
     const subIndent = indent + " ".repeat(indentLevel);
     structure.properties.forEach((property, propName) => {
       // process each property in the data
       let value: string | undefined;
+      const propPath = `${path}.${propName}`;
       const propValue = data[propName];
       const objectPropValue = data[`${structureName}.${propName}`];
       switch (property.type) {
         case "String": {
           if (propValue) {
-            value = `"${escapeString(data[propName][0])}"`;
+            value = processString(context, `${data[propName][0]}`, propPath, property);
           } else {
-            value = `""`;
+            value = JSON.stringify(context.defaults.String);
           }
           break;
         }
         case "Number": {
           if (propValue) {
-            value = `${data[propName][0]}`;
+            value = `${numberValue(context, propValue[0])}`;
           } else {
-            value = "0";
+            value = `${context.defaults.Number}`;
           }
           break;
         }
         case "Boolean": {
           if (propValue) {
-            value = `${data[propName][0]}`;
+            value = `${booleanValue(context, propValue[0])}`;
           } else {
-            value = "false";
+            value = `${context.defaults.Boolean}`;
           }
           break;
         }
         case "Enum": {
-          if (propValue) {
-            // XXX should we just emit the literal string value here?
-            value = `${property.subType}.${data[propName]}`;
-            //value = `"${propValue[0]}"`;
-          } else {
-            value = `undefined as any as ${property.subType}`; // XXX should we allow enums to be undefined?
+          const enumStructure = propertyEnum(context, property.subType, propPath, data);
+          if (!enumStructure) {
+            return;
           }
+          value = enumMemberAccess(enumStructure.typeName, propValue ? enumItem(context.structures, property.subType, propValue[0]) : enumStructure.defaultItem);
+          context.typeReferences.add(property.subType);
           break;
         }
         case "Font": {
           if (propValue) {
-            value = `FontFamily.${data[propName][0]}`;
+            value = enumMemberAccess("FontFamily", enumItem(context.structures, "FontFamily", propValue[0]));
           } else {
-            value = "FontFamily.Bangers";
+            value = enumMemberAccess("FontFamily", fontFamilyDefault(context.structures));
           }
+          context.typeReferences.add("FontFamily");
           break;
         }
         case "Object": {
-          if (objectPropValue) {
-            const structureData = objectPropValue[0][property.subType][0];
-            value = `${processDataStructure(structures, subIndent, property.subType, structureData, indentLevel)}`;
+          const structureData = objectPropertyElement(context.structures, data, structureName, propName, property.subType);
+          if (structureData !== undefined) {
+            value = `${processDataStructure(context, subIndent, propPath, property.subType, structureData)}`;
           } else {
-            value = `undefined as any as ${property.subType}`; // XXX should we allow objects to be undefined?
+            value = "null";
           }
           break;
         }
         case "Image": {
           if (propValue) {
-            const imageSource = propValue[0];
-            const imagePathParts = (imageSource as string).split(";", 2);
-            const imagePath = imagePathParts[1]?.replace("component/", "");
-            if (imagePath) {
-              value = `"${imagePath}"`;
-            } else {
-              console.warn(`Image path not found for property ${propName} of structure ${structureName}: ${imageSource}`);
-              value = `""`;
-            }
+            value = processImage(context, `${propValue[0]}`, `property ${propName} of structure ${structureName}`, data, propPath);
           } else {
-            value = `""`;
+            value = "null";
           }
           break;
         }
         case "Brush": {
+          const brushType = objectPropValue ? brushElementNames.find((name) => objectPropValue[0]?.[name]) : undefined;
           if (propValue) {
-            value = `"${propValue[0]}"`;
+            value = `"${normalizeColor(`${propValue[0]}`)}"`;
+          } else if (brushType) {
+            value = processDataStructure(context, subIndent, propPath, brushType, objectPropValue[0][brushType][0]);
           } else {
             value = `""`;
           }
@@ -116,12 +244,12 @@ function processDataStructure(structures: NoesisStructureMap, indent: string, st
         }
         case "Collection": {
           if (objectPropValue) {
-            const collectionType = noesisSubtypeToNoesisTypeConverter(property.subType);
-            const itemsData = objectPropValue[0][collectionType];
+            const collectionType = property.subType;
+            const itemsData = objectPropValue[0]?.[structureElementName(context.structures, collectionType)];
             if (Array.isArray(itemsData)) {
-              value = `[\n${processArray(structures, subIndent, collectionType, itemsData, indentLevel)}${subIndent}]`;
+              value = `[\n${processArray(context, subIndent, propPath, collectionType, itemsData)}${subIndent}]`;
             } else {
-              console.warn(`Expected array for collection property ${propName} type ${collectionType} of structure ${structureName}\n${util.inspect(data, { depth: null })}`);
+              reportDiagnostic(context.diagnostics, "warning", "unexpected-element", `Expected array for collection property ${propName} type ${collectionType} of structure ${structureName}: ${util.inspect(objectPropValue[0], { depth: 1 })}`, nodeLocation(context.file, data), propPath);
               value = `[]`;
             }
           } else {
@@ -133,13 +261,13 @@ function processDataStructure(structures: NoesisStructureMap, indent: string, st
           if (objectPropValue) {
             const commandData = objectPropValue[0]
             if (commandData["MessageCommand"]) {
-              value = processCommand(subIndent, commandData["MessageCommand"][0], indentLevel);
+              value = processCommand(context, commandData["MessageCommand"][0]);
             } else {
-              console.warn(`Unknown command type for property ${propName} of structure ${structureName}: ${commandData}`);
-              value = "() => { console.warn('Command type not recognized'); }";
+              reportDiagnostic(context.diagnostics, "warning", "unknown-command", `Unknown command type for property ${propName} of structure ${structureName}: ${Object.keys(commandData).join(", ")}`, nodeLocation(context.file, commandData), propPath);
+              value = processUnsetCommand(context);
             }
           } else {
-            value = "() => { console.warn('Command not defined'); }";
+            value = processUnsetCommand(context);
           }
           break;
         }
@@ -148,84 +276,419 @@ function processDataStructure(structures: NoesisStructureMap, indent: string, st
     });
     result += `${indent}}`;
   } else if (structure?.type === "Enum") {
-    result = `${structure.name}.${data}`;
+    result = enumMemberAccess(structure.typeName, enumItem(context.structures, structure.qualifiedName, data));
+    context.typeReferences.add(structure.qualifiedName);
   } else if (structure?.type === "BuiltIn") {
     switch (structure.name) {
       case "Single":
-        result = `${data}`
+        result = `${numberValue(context, data)}`;
         break;
       case "Boolean":
-        result = `${data}`;
+        result = `${booleanValue(context, data)}`;
         break;
       case "String":
-        result = `"${escapeString(data)}"`;
+        result = processString(context, `${data}`, path);
         break;
       case "Color":
-        result = `${data}`;
+        // malformed colors are reported by the set validation
+        result = formatColor(parseColor(`${data}`) ?? transparentColor);
         break;
       case "BitmapImage": {
-        const imageSource = data["UriSource"][0];
-        const imagePathParts = (imageSource as string).split(";", 2);
-        const imagePath = imagePathParts[1]?.replace("component/", "");
-        if (imagePath) {
-          result = `"${imagePath}"`;
-        } else {
-          console.warn(`Image path not found fo built-in structure ${structureName}: ${imageSource}`);
-        }
+        result = processImage(context, `${data["UriSource"][0]}`, `built-in structure ${structureName}`, data, path);
         break;
       }
       case "SolidColorBrush": {
-        result = `"${data["Color"][0]}"`;
+        result = `"${normalizeColor(`${data["Color"]?.[0] ?? ""}`)}"`;
+        break;
+      }
+      case "LinearGradientBrush":
+      case "RadialGradientBrush": {
+        result = processGradientBrush(indent, indentLevel, structure.name, data);
         break;
       }
       case "MessageCommand": {
-        result = processCommand(indent, data, indentLevel);
+        result = processCommand(context, data);
         break;
       }
       default:
-        console.error("Unknown built-in:", structure.name);
+        // subtypes added by the project config hold plain values of the type they map to
+        result = structure.typeName === "number" ? `${numberValue(context, data)}` : structure.typeName === "boolean" ? `${booleanValue(context, data)}` : JSON.stringify(`${data}`);
     }
   } else {
-    console.error(`Unknown structure type for data: ${structureName}`);
+    reportDiagnostic(context.diagnostics, "error", "unknown-structure-type", `Unknown structure type for data: ${structureName}`, nodeLocation(context.file, data), path);
   }
   return result;
 }
 
-export async function outputDataSets(structures: NoesisStructureMap, dataPath: string, scriptPath: string, setName: string | undefined, isVerbose: boolean, indentLevel: number) {
-  if (isVerbose) {
-    console.log(`Writing Data Sets to ${scriptPath}`);
+// a String value of the JSON data format: the source text, or the translation of the locale being generated
+function stringValue(context: DataSetContext, text: string, path: string, property?: NoesisProperty & { type: "String" }): string {
+  const key = extractString(context, text, path, property);
+  if (key !== undefined && context.localization?.output === "lookup") {
+    context.usesLookup = true;
   }
+  return (key !== undefined ? context.locale?.strings.get(key) : undefined) ?? text;
+}
+
+// the value of the JSON data format for the data of a structure, in the form the exporter reads back:
+// enum item names, command messages, image paths and unset commands as null
+function dataStructureValue(context: DataSetContext, path: string, structureType: string, data: any): unknown {
+  const structure = context.structures.get(structureType);
+  const structureName = structureElementName(context.structures, structureType);
+  if (structure?.type === "Class") {
+    const result: Record<string, unknown> = {};
+    structure.properties.forEach((property, propName) => {
+      const propPath = `${path}.${propName}`;
+      const propValue = data[propName];
+      const objectPropValue = data[`${structureName}.${propName}`];
+      switch (property.type) {
+        case "String":
+          result[propName] = propValue ? stringValue(context, `${propValue[0]}`, propPath, property) : context.defaults.String;
+          break;
+        case "Number":
+          result[propName] = propValue ? numberValue(context, propValue[0]) : context.defaults.Number;
+          break;
+        case "Boolean":
+          result[propName] = propValue ? booleanValue(context, propValue[0]) : context.defaults.Boolean;
+          break;
+        case "Enum": {
+          const enumStructure = propertyEnum(context, property.subType, propPath, data);
+          if (!enumStructure) {
+            return;
+          }
+          result[propName] = propValue ? enumItem(context.structures, property.subType, propValue[0]) : enumStructure.defaultItem;
+          break;
+        }
+        case "Font":
+          result[propName] = propValue ? enumItem(context.structures, "FontFamily", propValue[0]) : fontFamilyDefault(context.structures);
+          break;
+        case "Object": {
+          const structureData = objectPropertyElement(context.structures, data, structureName, propName, property.subType);
+          result[propName] = structureData !== undefined ? dataStructureValue(context, propPath, property.subType, structureData) : null;
+          break;
+        }
+        case "Image":
+          result[propName] = propValue ? imagePathValue(context, `${propValue[0]}`, `property ${propName} of structure ${structureName}`, data, propPath) ?? "" : null;
+          break;
+        case "Brush": {
+          const brushType = objectPropValue ? brushElementNames.find((name) => objectPropValue[0]?.[name]) : undefined;
+          if (propValue) {
+            result[propName] = normalizeColor(`${propValue[0]}`);
+          } else if (brushType) {
+            result[propName] = dataStructureValue(context, propPath, brushType, objectPropValue[0][brushType][0]);
+          } else {
+            result[propName] = "";
+          }
+          break;
+        }
+        case "Collection": {
+          const collectionType = property.subType;
+          const itemsData = objectPropValue?.[0]?.[structureElementName(context.structures, collectionType)];
+          if (Array.isArray(itemsData)) {
+            result[propName] = itemsData.map((itemData, index) => dataStructureValue(context, `${propPath}[${index}]`, collectionType, itemData));
+          } else {
+            if (objectPropValue) {
+              reportDiagnostic(context.diagnostics, "warning", "unexpected-element", `Expected array for collection property ${propName} type ${collectionType} of structure ${structureName}: ${util.inspect(objectPropValue[0], { depth: 1 })}`, nodeLocation(context.file, data), propPath);
+            }
+            result[propName] = [];
+          }
+          break;
+        }
+        case "Command": {
+          const commandData = objectPropValue?.[0];
+          if (commandData?.["MessageCommand"]) {
+            result[propName] = commandMessage(context, commandData["MessageCommand"][0]);
+          } else {
+            if (commandData) {
+              reportDiagnostic(context.diagnostics, "warning", "unknown-command", `Unknown command type for property ${propName} of structure ${structureName}: ${Object.keys(commandData).join(", ")}`, nodeLocation(context.file, commandData), propPath);
+            }
+            result[propName] = null;
+          }
+          break;
+        }
+      }
+    });
+    return result;
+  } else if (structure?.type === "Enum") {
+    return enumItem(context.structures, structure.qualifiedName, data);
+  } else if (structure?.type === "BuiltIn") {
+    switch (structure.name) {
+      case "Single":
+        return numberValue(context, data);
+      case "Boolean":
+        return booleanValue(context, data);
+      case "String":
+        return stringValue(context, `${data}`, path);
+      case "Color":
+        // malformed colors are reported by the set validation
+        return parseColor(`${data}`) ?? transparentColor;
+      case "BitmapImage":
+        return imagePathValue(context, `${data["UriSource"][0]}`, `built-in structure ${structureName}`, data, path) ?? "";
+      case "SolidColorBrush":
+        return normalizeColor(`${data["Color"]?.[0] ?? ""}`);
+      case "LinearGradientBrush":
+      case "RadialGradientBrush":
+        return gradientBrushValue(structure.name, data);
+      case "MessageCommand":
+        return commandMessage(context, data);
+      default:
+        return structure.typeName === "number" ? numberValue(context, data) : structure.typeName === "boolean" ? booleanValue(context, data) : `${data}`;
+    }
+  }
+  reportDiagnostic(context.diagnostics, "error", "unknown-structure-type", `Unknown structure type for data: ${structureName}`, nodeLocation(context.file, data), path);
+  return null;
+}
+
+function collectUnsetProperties(structures: NoesisStructureMap, structureType: string, data: any, unsetProperties: Set<string>) {
+  const structure = structures.get(structureType);
+  if (structure?.type !== "Class" || typeof data !== "object" || data === null) {
+    return;
+  }
+  structure.properties.forEach((property, propName) => {
+    switch (property.type) {
+      case "Object": {
+        const structureData = objectPropertyElement(structures, data, structure.name, propName, property.subType);
+        if (structureData === undefined) {
+          unsetProperties.add(propertyKey(structure.qualifiedName, propName));
+        } else {
+          collectUnsetProperties(structures, property.subType, structureData, unsetProperties);
+        }
+        break;
+      }
+      case "Image":
+        if (!data[propName]) {
+          unsetProperties.add(propertyKey(structure.qualifiedName, propName));
+        }
+        break;
+      case "Collection": {
+        const itemType = property.subType;
+        const itemsData = data[`${structure.name}.${propName}`]?.[0]?.[structureElementName(structures, itemType)];
+        if (Array.isArray(itemsData)) {
+          itemsData.forEach((itemData) => collectUnsetProperties(structures, itemType, itemData, unsetProperties));
+        }
+        break;
+      }
+    }
+  });
+}
+
+// Object and Image properties each data set leaves unset, keyed by set file; sets in known are taken from it rather than read.
+// sets that fail to parse are skipped, generating them reports the error.
+export async function findSetUnsetProperties(structures: NoesisStructureMap, dataPath: string, known: Map<string, string[]> = new Map()): Promise<Map<string, string[]>> {
+  const setUnsetProperties = new Map<string, string[]>();
+  const dataDir = dataPath + "/sets";
+  if (!fs.existsSync(dataDir)) {
+    return setUnsetProperties;
+  }
+  for (const file of fs.readdirSync(dataDir).filter((file) => file.endsWith(".xaml"))) {
+    const knownProperties = known.get(file);
+    if (knownProperties) {
+      setUnsetProperties.set(file, knownProperties);
+      continue;
+    }
+    try {
+      const result = await parseNoesisXml(fs.readFileSync(`${dataDir}/${file}`, "utf8"), true);
+      const rootElement = Object.keys(result)[0]!;
+      const structureType = resolveElementStructure(structures, rootElement, declaredNamespaces(result[rootElement])) ?? rootElement;
+      const unsetProperties = new Set<string>();
+      collectUnsetProperties(structures, structureType, result[rootElement], unsetProperties);
+      setUnsetProperties.set(file, Array.from(unsetProperties));
+    } catch (e) {
+      continue;
+    }
+  }
+  return setUnsetProperties;
+}
+
+// Object and Image properties left unset somewhere in the data sets, which are generated as null
+export async function findUnsetProperties(structures: NoesisStructureMap, dataPath: string, known?: Map<string, string[]>): Promise<Set<string>> {
+  const setUnsetProperties = await findSetUnsetProperties(structures, dataPath, known);
+  return new Set(Array.from(setUnsetProperties.values()).flat());
+}
+
+// generate the module of a data context factory for a parsed set
+function outputDataContext(context: DataSetContext, options: OutputOptions, exportName: string, description: string, rootElement: string, structureType: string, rootData: any): string {
+  const indentLevel = context.indentLevel;
+  const indent = " ".repeat(indentLevel);
+  const rootTypeName = structureTypeName(context.structures, structureType);
+  const dataSet = processDataStructure(context, indent, rootElement, structureType, rootData);
+
+  let output = `// Auto-generated data context from Noesis data set: ${description}\n\n`;
+  const imports = dataSetImports(context.structures, context.typeReferences, options);
+  context.commandReferences.forEach((name) => addImport(imports, commonImportPath(options), name));
+  output += outputImports(imports);
+  output += `import type { CommandHandlers } from "./${options.naming.commandsFile.replace(".ts", "")}";\n`;
+  if (context.usesImageSource) {
+    output += `import { ${imageSourceFunction} } from "./${options.naming.imagesFile.replace(".ts", "")}";\n`;
+  }
+  if (context.usesLookup) {
+    output += `import { ${lookupFunction} } from "./${stringsFileName.replace(".ts", "")}";\n`;
+  }
+  if (options.bindings) {
+    output += `import { ${bindingClassName(rootTypeName)} } from "./${bindingsFileName.replace(".ts", "")}";\n`;
+  }
+  output += `\n`;
+  output += `export function ${exportName}(${handlersParameter}: ${commandHandlersType(context.commandMessages)}): ${rootTypeName} {\n`;
+  output += `${indent}return ${dataSet};\n`;
+  output += `}\n`;
+  if (options.bindings) {
+    output += `\n${outputBindingFactory(rootTypeName, commandHandlersType(context.commandMessages), exportName, indentLevel)}`;
+  }
+  return output;
+}
+
+// generate the loader module of a parsed set in the JSON data format, adding its data, and that of every locale in the
+// per-locale localization output, to dataFiles
+function outputJsonDataSet(context: DataSetContext, options: OutputOptions, exportName: string, file: string, outputFile: string, rootElement: string, structureType: string, rootData: any, dataFiles: Map<string, string>): string {
+  dataFiles.set(dataFileName(outputFile), `${JSON.stringify(dataStructureValue(context, rootElement, structureType, rootData))}\n`);
+  if (context.localization?.output === "per-locale") {
+    context.localization.translations.forEach((locale, localeName) => {
+      // the source pass already reported the set's diagnostics
+      const localeContext: DataSetContext = { ...context, diagnostics: [], locale, commandMessages: new Set<string>(), images: new Set<string>(), strings: [] };
+      dataFiles.set(dataFileName(outputFile, localeName), `${JSON.stringify(dataStructureValue(localeContext, rootElement, structureType, rootData))}\n`);
+    });
+  }
+  const shapes = dataShapes(context.structures, structureType, {
+    numericEnums: options.enumStyle === "numeric",
+    mappedImages: context.imageAssets !== undefined,
+    lookupStrings: context.localization?.output === "lookup",
+  });
+  shapeEnums(shapes).forEach((name) => context.typeReferences.add(name));
+  return outputDataLoader(context.structures, {
+    rootStructure: structureType,
+    rootElement,
+    setName: context.setName,
+    exportName,
+    dataFile: dataFileName(outputFile),
+    commandMessages: context.commandMessages,
+    shapes,
+    imports: outputImports(dataSetImports(context.structures, context.typeReferences, options)),
+  }, options, file);
+}
+
+export type GeneratedDataSet = {
+  // set file name under .noesis/data/sets
+  setFile: string;
+  outputFile: string;
+  // data context factory export
+  exportName: string;
+  // qualified name of the root structure
+  rootStructure: string;
+  commandMessages: string[];
+  // image paths, relative to the Noesis project root
+  images: string[];
+  // String values extracted for localization
+  strings: ExtractedString[];
+  source: string;
+  // data set per locale in the per-locale localization output, keyed by output file
+  localizedFiles: Map<string, string>;
+  // JSON data of the set, and of every locale in the per-locale localization output, in the JSON data format
+  dataFiles: Map<string, string>;
+  // diagnostics of the set, also reported with those of the run
+  diagnostics: Diagnostic[];
+};
+
+// generate the source of a data set from its XAML; file is the set file name, filePath where its XAML comes from
+export async function outputDataSet(structures: NoesisStructureMap, dataPath: string, file: string, filePath: string, data: string, options: OutputOptions, imageAssets: ImageAssetMap | undefined, localization: Localization | undefined, diagnostics: Diagnostic[]): Promise<GeneratedDataSet | undefined> {
+  const indentLevel = options.indentLevel;
+  const setDiagnostics: Diagnostic[] = [];
+  let result: any;
+  try {
+    result = await parseNoesisXml(data, true);
+  } catch (e) {
+    const code = getErrorPosition(e) ? "xml-parse-error" : "read-error";
+    reportDiagnostic(diagnostics, "error", code, `Error reading data set: ${getErrorMessage(e)}`, { file: filePath, ...getErrorPosition(e) });
+    return undefined;
+  }
+  const rootElement = Object.keys(result)[0]!;
+  const structureType = resolveElementStructure(structures, rootElement, declaredNamespaces(result[rootElement]));
+  if (!structureType) {
+    reportDiagnostic(diagnostics, "error", "unknown-structure-type", `Root element ${rootElement} does not name exactly one structure`, nodeLocation(filePath, result[rootElement]));
+    return undefined;
+  }
+  const context: DataSetContext = {
+    structures,
+    dataPath,
+    file: filePath,
+    indentLevel,
+    defaults: options.defaults,
+    diagnostics: setDiagnostics,
+    commandMessages: new Set<string>(),
+    typeReferences: new Set<string>([structureType]),
+    commandReferences: new Set<string>(),
+    imageAssets,
+    images: new Set<string>(),
+    usesImageSource: false,
+    setName: file.replace(".xaml", ""),
+    localization,
+    locale: undefined,
+    strings: [],
+    usesLookup: false,
+  };
+  validateDataSet(structures, filePath, structureType, result[rootElement], setDiagnostics);
+  const outputFile = file.replace(".xaml", ".ts");
+  const exportName = options.sets[context.setName]?.exportName ?? options.naming.dataContextExport;
+  const dataFiles = new Map<string, string>();
+  const source = options.dataFormat === "json"
+    ? outputJsonDataSet(context, options, exportName, file, outputFile, rootElement, structureType, result[rootElement], dataFiles)
+    : outputDataContext(context, options, exportName, file, rootElement, structureType, result[rootElement]);
+  diagnostics.push(...setDiagnostics);
+  const localizedFiles = new Map<string, string>();
+  if (localization?.output === "per-locale" && options.dataFormat !== "json") {
+    localization.translations.forEach((locale, localeName) => {
+      // the source pass already reported the set's diagnostics
+      const localeContext: DataSetContext = { ...context, diagnostics: [], locale, commandMessages: new Set<string>(), typeReferences: new Set<string>([structureType]), commandReferences: new Set<string>(), images: new Set<string>(), strings: [] };
+      localizedFiles.set(localizedFileName(outputFile, localeName), outputDataContext(localeContext, options, exportName, `${file} (${localeName})`, rootElement, structureType, result[rootElement]));
+    });
+  }
+  return {
+    setFile: file,
+    outputFile,
+    exportName,
+    rootStructure: structureType,
+    commandMessages: Array.from(context.commandMessages),
+    images: Array.from(context.images),
+    strings: context.strings,
+    source,
+    localizedFiles,
+    dataFiles,
+    diagnostics: setDiagnostics,
+  };
+}
+
+// generate the source of every data set, or only the named one; sets in reused are taken from it rather than read
+export async function outputDataSets(structures: NoesisStructureMap, dataPath: string, setName: string | undefined, isVerbose: boolean, options: OutputOptions, imageAssets: ImageAssetMap | undefined, localization: Localization | undefined, diagnostics: Diagnostic[], reused: Map<string, GeneratedDataSet> = new Map()): Promise<GeneratedDataSet[]> {
+  const dataSets: GeneratedDataSet[] = [];
   // read data sets
   const dataDir = dataPath + "/sets";
-  const dataFiles = setName ? [setName + ".xaml"] : fs.readdirSync(dataDir).filter(file => file?.endsWith(".xaml"));
+  // excluded sets are only generated when asked for by name
+  const dataFiles = setName ? [setName + ".xaml"] : fs.readdirSync(dataDir).filter(file => file?.endsWith(".xaml") && !options.sets[file.replace(".xaml", "")]?.exclude);
 
   for (let i = 0; i < dataFiles.length; i++) {
     const file = dataFiles[i]!;
+    const reusedDataSet = reused.get(file);
+    if (reusedDataSet) {
+      if (isVerbose) {
+        console.log(`- ${file} unchanged`);
+      }
+      diagnostics.push(...reusedDataSet.diagnostics);
+      dataSets.push(reusedDataSet);
+      continue;
+    }
     if (isVerbose) {
       console.log(`- reading ${file}`);
     }
-    const data = fs.readFileSync(`${dataDir}/${file}`, "utf8");
-    const result = await xml2js.parseStringPromise(data, {
-      trim: true,
-      mergeAttrs: true,
-      explicitArray: true,
-      tagNameProcessors: [stripPrefix],
-      valueProcessors: [parseNumbers, parseBooleans],
-      attrValueProcessors: [parseNumbers, parseBooleans],
-    });
-    const structureType = Object.keys(result)[0]!;
-    const dataSet = processDataStructure(structures, "", structureType, result[structureType], indentLevel);
-  
-    const tsFile = file.replace(".xaml", ".ts");
-    if (isVerbose) {
-      console.log(`- writing ${tsFile}`);
+    const filePath = `${dataDir}/${file}`;
+    let data: string;
+    try {
+      data = fs.readFileSync(filePath, "utf8");
+    } catch (e) {
+      reportDiagnostic(diagnostics, "error", "read-error", `Error reading data set: ${getErrorMessage(e)}`, { file: filePath });
+      continue;
+    }
+    const dataSet = await outputDataSet(structures, dataPath, file, filePath, data, options, imageAssets, localization, diagnostics);
+    if (dataSet) {
+      dataSets.push(dataSet);
     }
-    const output = fs.createWriteStream(scriptPath + "/" + tsFile);
-    output.write(`// Auto-generated data context from Noesis data set: ${file}\n\n`);
-    const imports = Array.from(structures.values().filter(value => value.type !== "BuiltIn").map(value => value.name));
-    output.write(`import { ${imports.join(", ")} } from "./NoesisTypes";\n\n`);
-    output.write(`export const dataContext: ${structureType} = ${dataSet};\n`);
-    output.end();
-    output.close();
-  }
-}
\ No newline at end of file
+  }
+  return dataSets;
+}
@@ -0,0 +1,98 @@
+import fs from "node:fs";
+import { getChildPosition, getSourcePosition } from "./xml";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type DiagnosticCode =
+  | "read-error"
+  | "xml-parse-error"
+  | "unknown-structure-type"
+  | "unknown-property-type"
+  | "unknown-property"
+  | "unexpected-element"
+  | "missing-value"
+  | "invalid-value"
+  | "out-of-range"
+  | "unknown-enum-member"
+  | "unknown-command"
+  | "missing-image-path"
+  | "missing-image-file"
+  | "unmapped-image"
+  | "missing-translation"
+  | "unknown-string-key"
+  | "unresolved-binding-path"
+  | "structure-name-collision";
+
+export type SourceLocation = {
+  file: string;
+  line?: number;
+  column?: number;
+};
+
+export type Diagnostic = SourceLocation & {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  // structure/property path, e.g. ShopRoot.Items[2].Price
+  path?: string;
+};
+
+export type ReportFormat = "json";
+
+export const reportFormats: ReportFormat[] = ["json"];
+
+// location of a parsed xml node within its source file
+export function nodeLocation(file: string, node: unknown): SourceLocation {
+  const position = getSourcePosition(node);
+  return position ? { file, line: position.line, column: position.column } : { file };
+}
+
+// location of the index-th child element of the given name of a parsed xml node, for children parsed into plain values
+// that cannot hold their own; the node's location if unknown
+export function childLocation(file: string, node: unknown, name: string, index: number): SourceLocation {
+  const position = getChildPosition(node, name, index) ?? getSourcePosition(node);
+  return position ? { file, line: position.line, column: position.column } : { file };
+}
+
+export function reportDiagnostic(diagnostics: Diagnostic[], severity: DiagnosticSeverity, code: DiagnosticCode, message: string, location: SourceLocation, path?: string) {
+  diagnostics.push({ severity, code, message, ...location, path });
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  let location = diagnostic.file;
+  if (diagnostic.line !== undefined) {
+    location += `:${diagnostic.line}`;
+    if (diagnostic.column !== undefined) {
+      location += `:${diagnostic.column}`;
+    }
+  }
+  const path = diagnostic.path ? ` ${diagnostic.path}:` : "";
+  return `${location}: ${diagnostic.severity} [${diagnostic.code}]${path} ${diagnostic.message}`;
+}
+
+export function printDiagnostics(diagnostics: Diagnostic[]) {
+  diagnostics.forEach((diagnostic) => {
+    if (diagnostic.severity === "error") {
+      console.error(formatDiagnostic(diagnostic));
+    } else {
+      console.warn(formatDiagnostic(diagnostic));
+    }
+  });
+  const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === "error").length;
+  const warningCount = diagnostics.length - errorCount;
+  if (diagnostics.length > 0) {
+    console.error(`${errorCount} error(s), ${warningCount} warning(s)`);
+  }
+}
+
+export function hasErrors(diagnostics: Diagnostic[], warningsAsErrors: boolean): boolean {
+  return diagnostics.some((diagnostic) => diagnostic.severity === "error" || warningsAsErrors);
+}
+
+export function writeDiagnosticsReport(diagnostics: Diagnostic[], format: ReportFormat, reportPath: string) {
+  switch (format) {
+    case "json":
+      fs.writeFileSync(reportPath, JSON.stringify({ diagnostics }, null, 2) + "\n");
+      break;
+  }
+}
@@ -0,0 +1,350 @@
+import fs from "node:fs";
+import { basename, resolve } from "node:path";
+import { exportGradientBrush } from "./brushes";
+import { colorToHex } from "./colors";
+import { commandMessageSymbol } from "./commands";
+import { reportDiagnostic, type Diagnostic } from "./diagnostics";
+import { configTypes, readProjectConfig, type ProjectConfig } from "./config";
+import { projectDataPath } from "./generate";
+import { readStructures, structureDependencies } from "./structures";
+import { declaredNamespaces, escapeXml, parseNoesisXml } from "./xml";
+import { resolveElementStructure, structureNamespace, type NoesisClass, type NoesisEnum, type NoesisProperty, type NoesisStructureMap } from "./types";
+
+export type ExportOptions = {
+  // assembly name used in image pack URIs (/Assembly;component/path)
+  assemblyName: string;
+  indentLevel: number;
+  // namespace declarations for the root element, e.g. copied from an existing set
+  namespaces?: Record<string, string>;
+};
+
+export type ExportSetOptions = {
+  // Noesis project root directory, containing the .noesis/data folder
+  projectPath: string;
+  // read from the project root when omitted
+  config?: ProjectConfig;
+  setName: string;
+  // data context object matching the generated NoesisTypes.ts, or the generated createDataContext factory
+  dataContext: unknown;
+  // root structure of the set, defaults to the root of the existing set file
+  rootStructure?: string;
+  // defaults to the project folder name
+  assemblyName?: string;
+  indentLevel?: number;
+  isVerbose?: boolean;
+};
+
+export type ExportSetResult = {
+  // set file path under .noesis/data/sets
+  file: string;
+  source: string;
+  diagnostics: Diagnostic[];
+};
+
+type ExportContext = {
+  structures: NoesisStructureMap;
+  file: string;
+  options: ExportOptions;
+  // namespace declarations of the root element
+  namespaces: Record<string, string>;
+  diagnostics: Diagnostic[];
+};
+
+// XAML language namespace, holding the String, Single and Boolean collection items
+const xamlNamespace = "http://schemas.microsoft.com/winfx/2006/xaml";
+
+const defaultNamespaces: Record<string, string> = {
+  "xmlns": "http://schemas.microsoft.com/winfx/2006/xaml/presentation",
+  "xmlns:x": xamlNamespace,
+  "xmlns:noesis": "clr-namespace:NoesisGUIExtensions;assembly=Noesis.GUI.Extensions",
+};
+
+// name with the prefix the root declares for the first namespace matching, e.g. x:String; unprefixed for the default namespace
+function prefixedName(context: ExportContext, name: string, matches: (namespace: string) => boolean): string {
+  const declaration = Object.entries(context.namespaces).find(([, value]) => matches(value))?.[0];
+  return declaration?.startsWith("xmlns:") ? `${declaration.substring("xmlns:".length)}:${name}` : name;
+}
+
+// element name of a XAML language type, e.g. x:String
+function xamlElementName(context: ExportContext, name: string): string {
+  return prefixedName(context, name, (namespace) => namespace === xamlNamespace);
+}
+
+// element name of a class or enum, prefixed when the root declares its CLR namespace under a prefix, e.g. local:ShopItem
+function structureElement(context: ExportContext, structure: NoesisClass | NoesisEnum): string {
+  const namespace = structureNamespace(structure);
+  return namespace ? prefixedName(context, structure.name, (declared) => declaredNamespaces({ xmlns: declared }).includes(namespace)) : structure.name;
+}
+
+function imageUri(context: ExportContext, path: string): string {
+  return `/${context.options.assemblyName};component/${path}`;
+}
+
+const commandMessageKey = Symbol.for(commandMessageSymbol);
+
+// generated commands carry their message under commandMessageKey, read without calling them.
+// null means the command is the shared unsetCommand; undefined that it is not a generated command.
+function commandMessage(command: unknown): string | null | undefined {
+  if (typeof command === "string") {
+    return command;
+  }
+  if (typeof command === "function" && commandMessageKey in command) {
+    const message: unknown = command[commandMessageKey];
+    return typeof message === "string" || message === null ? message : undefined;
+  }
+  return undefined;
+}
+
+// numeric enums export their values, Noesis wants the item name
+function enumItemName(context: ExportContext, path: string, enumName: string, value: unknown): string | undefined {
+  const structure = context.structures.get(enumName);
+  if (typeof value !== "number" || structure?.type !== "Enum") {
+    return `${value}`;
+  }
+  for (const [item, itemValue] of structure.items) {
+    if (itemValue === value) {
+      return item;
+    }
+  }
+  reportDiagnostic(context.diagnostics, "warning", "unknown-enum-member", `${value} is not a value of ${enumName}`, { file: context.file }, path);
+  return undefined;
+}
+
+function attributeValue(context: ExportContext, path: string, property: NoesisProperty, value: unknown): string | undefined {
+  switch (property.type) {
+    case "String":
+      return `${value}`;
+    case "Enum":
+      return enumItemName(context, path, property.subType, value);
+    case "Font":
+      return enumItemName(context, path, "FontFamily", value);
+    case "Number":
+      return `${value}`;
+    case "Boolean":
+      return value ? "True" : "False";
+    case "Image":
+      if (typeof value === "string") {
+        return value ? imageUri(context, value) : undefined;
+      }
+      reportDiagnostic(context.diagnostics, "warning", "invalid-value", "Only image paths can be exported, ImageSource objects are skipped", { file: context.file }, path);
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+function exportCommand(context: ExportContext, indent: string, path: string, value: unknown): string | undefined {
+  const message = commandMessage(value);
+  if (message === null) {
+    return undefined;
+  }
+  if (message === undefined) {
+    reportDiagnostic(context.diagnostics, "warning", "unknown-command", "Command message could not be determined, command is skipped", { file: context.file }, path);
+    return undefined;
+  }
+  return `${indent}<noesis:MessageCommand Message="${escapeXml(message)}" />\n`;
+}
+
+function exportValue(context: ExportContext, indent: string, path: string, structureType: string, value: unknown): string | undefined {
+  const structure = context.structures.get(structureType);
+  if (structure?.type === "Class") {
+    return exportClass(context, indent, path, structureType, value);
+  } else if (structure?.type === "Enum") {
+    const item = enumItemName(context, path, structureType, value);
+    const elementName = structureElement(context, structure);
+    return item === undefined ? undefined : `${indent}<${elementName}>${escapeXml(item)}</${elementName}>\n`;
+  } else if (structure?.type === "BuiltIn") {
+    switch (structure.name) {
+      case "Single":
+      case "String": {
+        const elementName = xamlElementName(context, structure.name);
+        return `${indent}<${elementName}>${escapeXml(`${value}`)}</${elementName}>\n`;
+      }
+      case "Color":
+        // RGBA values, or color strings set by hand
+        return `${indent}<Color>${escapeXml(colorToHex(value) ?? `${value}`)}</Color>\n`;
+      case "Boolean": {
+        const elementName = xamlElementName(context, structure.name);
+        return `${indent}<${elementName}>${value ? "True" : "False"}</${elementName}>\n`;
+      }
+      case "BitmapImage":
+        if (typeof value === "string") {
+          return `${indent}<BitmapImage UriSource="${escapeXml(imageUri(context, value))}" />\n`;
+        }
+        reportDiagnostic(context.diagnostics, "warning", "invalid-value", "Only image paths can be exported, ImageSource objects are skipped", { file: context.file }, path);
+        return undefined;
+      case "SolidColorBrush":
+      case "LinearGradientBrush":
+      case "RadialGradientBrush": {
+        // solid brushes are color strings, gradient brushes objects
+        const element = typeof value === "object"
+          ? exportGradientBrush(indent, context.options.indentLevel, value)
+          : structure.name === "SolidColorBrush" ? `${indent}<SolidColorBrush Color="${escapeXml(`${value}`)}" />\n` : undefined;
+        if (!element) {
+          reportDiagnostic(context.diagnostics, "warning", "invalid-value", "Unknown brush value is skipped", { file: context.file }, path);
+        }
+        return element;
+      }
+      case "MessageCommand":
+        return exportCommand(context, indent, path, value);
+    }
+  }
+  reportDiagnostic(context.diagnostics, "error", "unknown-structure-type", `Unknown structure type for data: ${structureType}`, { file: context.file }, path);
+  return undefined;
+}
+
+function exportClass(context: ExportContext, indent: string, path: string, structureType: string, data: any, rootAttributes: string = ""): string | undefined {
+  const structure = context.structures.get(structureType);
+  if (structure?.type !== "Class") {
+    return undefined;
+  }
+  const structureName = structureElement(context, structure);
+  if (typeof data !== "object" || data === null) {
+    reportDiagnostic(context.diagnostics, "warning", "invalid-value", `Expected an object for ${structure.name}`, { file: context.file }, path);
+    return undefined;
+  }
+  const subIndent = indent + " ".repeat(context.options.indentLevel);
+  const elementIndent = subIndent + " ".repeat(context.options.indentLevel);
+  let attributes = rootAttributes;
+  let children = "";
+  structure.properties.forEach((property, propName) => {
+    const value = data[propName];
+    const propPath = `${path}.${propName}`;
+    // empty values are how unset attributes come out of the generator
+    if (value === undefined || value === null || value === "") {
+      return;
+    }
+    switch (property.type) {
+      case "Object": {
+        const element = exportValue(context, elementIndent, propPath, property.subType, value);
+        if (element) {
+          children += `${subIndent}<${structureName}.${propName}>\n${element}${subIndent}</${structureName}.${propName}>\n`;
+        }
+        break;
+      }
+      case "Collection": {
+        if (!Array.isArray(value)) {
+          reportDiagnostic(context.diagnostics, "warning", "invalid-value", `Expected an array for collection property ${propName}`, { file: context.file }, propPath);
+          break;
+        }
+        const itemType = property.subType;
+        const items = value.map((item, index) => exportValue(context, elementIndent, `${propPath}[${index}]`, itemType, item) ?? "").join("");
+        children += `${subIndent}<${structureName}.${propName}>\n${items}${subIndent}</${structureName}.${propName}>\n`;
+        break;
+      }
+      case "Brush": {
+        if (typeof value === "object") {
+          const element = exportGradientBrush(elementIndent, context.options.indentLevel, value);
+          if (element) {
+            children += `${subIndent}<${structureName}.${propName}>\n${element}${subIndent}</${structureName}.${propName}>\n`;
+          } else {
+            reportDiagnostic(context.diagnostics, "warning", "invalid-value", "Unknown brush value is skipped", { file: context.file }, propPath);
+          }
+        } else {
+          attributes += ` ${propName}="${escapeXml(`${value}`)}"`;
+        }
+        break;
+      }
+      case "Command": {
+        const element = exportCommand(context, elementIndent, propPath, value);
+        if (element) {
+          children += `${subIndent}<${structureName}.${propName}>\n${element}${subIndent}</${structureName}.${propName}>\n`;
+        }
+        break;
+      }
+      default: {
+        const attribute = attributeValue(context, propPath, property, value);
+        if (attribute !== undefined) {
+          attributes += ` ${propName}="${escapeXml(attribute)}"`;
+        }
+        break;
+      }
+    }
+  });
+  if (!children) {
+    return `${indent}<${structureName}${attributes} />\n`;
+  }
+  return `${indent}<${structureName}${attributes}>\n${children}${indent}</${structureName}>\n`;
+}
+
+// declare every namespace of a structure the root reaches that has no declaration yet under a prefix, local for the
+// first, so namespaced element names resolve while built-in elements stay in the default presentation namespace
+function declareStructureNamespaces(structures: NoesisStructureMap, rootType: string, namespaces: Record<string, string>) {
+  const declared = declaredNamespaces(namespaces);
+  const reached = Array.from(structureDependencies(structures, rootType), (name) => structures.get(name));
+  new Set(reached.map((structure) => structure && structure.type !== "BuiltIn" ? structureNamespace(structure) : undefined)).forEach((namespace) => {
+    if (namespace === undefined || declared.includes(namespace)) {
+      return;
+    }
+    let count = 1;
+    while (namespaces[count === 1 ? "xmlns:local" : `xmlns:local${count}`] !== undefined) {
+      count++;
+    }
+    namespaces[count === 1 ? "xmlns:local" : `xmlns:local${count}`] = `clr-namespace:${namespace}`;
+  });
+}
+
+// convert a data context object back into Noesis data set XAML
+// rootStructure is a qualified structure name, or an element name naming exactly one structure
+export function exportDataSet(structures: NoesisStructureMap, file: string, rootStructure: string, data: unknown, options: ExportOptions, diagnostics: Diagnostic[]): string {
+  const namespaces = { ...defaultNamespaces, ...options.namespaces };
+  const context: ExportContext = {
+    structures,
+    file,
+    options,
+    namespaces,
+    diagnostics,
+  };
+  const rootType = resolveElementStructure(structures, rootStructure, declaredNamespaces(options.namespaces));
+  if (!rootType || structures.get(rootType)?.type !== "Class") {
+    reportDiagnostic(diagnostics, "error", "unknown-structure-type", `Root structure ${rootStructure} is not a class`, { file });
+    return "";
+  }
+  declareStructureNamespaces(structures, rootType, namespaces);
+  const rootAttributes = Object.entries(namespaces).map(([name, value]) => ` ${name}="${escapeXml(value)}"`).join("");
+  return exportClass(context, "", structures.get(rootType)!.name, rootType, data, rootAttributes) ?? "";
+}
+
+// root structure and namespace declarations of an existing set file, so an export round-trips
+async function readSetHeader(file: string): Promise<{ rootStructure: string; namespaces: Record<string, string> } | undefined> {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  const result = await parseNoesisXml(fs.readFileSync(file, "utf8"), true);
+  const rootStructure = Object.keys(result)[0]!;
+  const namespaces: Record<string, string> = {};
+  Object.entries(result[rootStructure] ?? {}).forEach(([name, value]) => {
+    if (name.startsWith("xmlns") && Array.isArray(value)) {
+      namespaces[name] = `${value[0]}`;
+    }
+  });
+  return { rootStructure, namespaces };
+}
+
+// generate the XAML for a data set from a data context object, without writing it
+export async function exportSet(options: ExportSetOptions): Promise<ExportSetResult> {
+  const dataPath = projectDataPath(options.projectPath);
+  const file = `${dataPath}/sets/${options.setName}.xaml`;
+  const diagnostics: Diagnostic[] = [];
+  const config = options.config ?? await readProjectConfig(options.projectPath, diagnostics);
+  // no TypeScript is generated here, so prefixed type names keep structures sharing a short name apart
+  const structures = await readStructures(dataPath, options.isVerbose ?? false, diagnostics, true, configTypes(config));
+  let header: Awaited<ReturnType<typeof readSetHeader>>;
+  try {
+    header = await readSetHeader(file);
+  } catch (e) {
+    reportDiagnostic(diagnostics, "warning", "xml-parse-error", `Existing set could not be read, using default namespaces: ${e}`, { file });
+  }
+  const rootStructure = options.rootStructure ?? header?.rootStructure;
+  if (!rootStructure) {
+    reportDiagnostic(diagnostics, "error", "missing-value", "Root structure is unknown, pass it explicitly for a new set", { file });
+    return { file, source: "", diagnostics };
+  }
+  const dataContext = typeof options.dataContext === "function" ? options.dataContext({}) : options.dataContext;
+  const source = exportDataSet(structures, file, rootStructure, dataContext, {
+    assemblyName: options.assemblyName ?? basename(resolve(options.projectPath)),
+    indentLevel: Number(options.indentLevel ?? config.indentLevel ?? 2),
+    namespaces: header?.namespaces,
+  }, diagnostics);
+  return { file, source, diagnostics };
+}
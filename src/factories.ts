@@ -0,0 +1,60 @@
+import { unsetCommand } from "./commands";
+import { enumMemberAccess, fontFamilyDefault, propertyKey, type NoesisClass, type NoesisProperty, type NoesisStructureMap, type ValueDefaults } from "./types";
+
+export function factoryName(structureName: string): string {
+  return `create${structureName}`;
+}
+
+// value of a property a set leaves unset, matching what the data set generator emits
+function defaultValue(structures: NoesisStructureMap, structure: NoesisClass, property: NoesisProperty, propName: string, nullable: Set<string>, defaults: ValueDefaults): string {
+  switch (property.type) {
+    case "String":
+      return JSON.stringify(defaults.String);
+    case "Brush":
+      return `""`;
+    case "Number":
+      return `${defaults.Number}`;
+    case "Boolean":
+      return `${defaults.Boolean}`;
+    case "Command":
+      return unsetCommand;
+    case "Font":
+      return enumMemberAccess("FontFamily", fontFamilyDefault(structures));
+    case "Image":
+      return nullable.has(propertyKey(structure.qualifiedName, propName)) ? "null" : `""`;
+    case "Collection":
+      return "[]";
+    case "Enum": {
+      const subStructure = structures.get(property.subType);
+      // readStructures leaves out properties of unknown enums
+      if (subStructure?.type !== "Enum") {
+        throw new Error(`Unknown enum type ${property.subType} of property ${propName} of structure ${structure.qualifiedName}`);
+      }
+      return nullable.has(propertyKey(structure.qualifiedName, propName)) ? "null" : enumMemberAccess(subStructure.typeName, subStructure.defaultItem);
+    }
+    case "Object": {
+      const subStructure = structures.get(property.subType);
+      // Object properties of built-in structures are always nullable
+      if (subStructure?.type !== "Class" || nullable.has(propertyKey(structure.qualifiedName, propName))) {
+        return "null";
+      }
+      return `${factoryName(subStructure.typeName)}()`;
+    }
+  }
+}
+
+// generate a createX function for a class structure
+export function generateFactory(structures: NoesisStructureMap, structure: NoesisClass, indentLevel: number, nullable: Set<string>, defaults: ValueDefaults): string {
+  const indent = " ".repeat(indentLevel);
+  const subIndent = indent.repeat(2);
+  let result = `// Factory for structure ${structure.qualifiedName}, filling properties missing from partial with their defaults\n`;
+  result += `export function ${factoryName(structure.typeName)}(partial?: Partial<${structure.typeName}>): ${structure.typeName} {\n`;
+  result += `${indent}return {\n`;
+  structure.properties.forEach((property, propName) => {
+    result += `${subIndent}${propName}: ${defaultValue(structures, structure, property, propName, nullable, defaults)},\n`;
+  });
+  result += `${subIndent}...partial,\n`;
+  result += `${indent}};\n`;
+  result += `}\n\n`;
+  return result;
+}
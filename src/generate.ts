@@ -0,0 +1,208 @@
+import fs from "node:fs";
+import path from "node:path";
+import { bindingsFileName, outputBindings } from "./bindings";
+import { generationCache, optionsHash, restoreDataSet, reusableSets, setHashes, structureHashes, type GenerationCache, type PreviousGeneration } from "./cache";
+import { outputCommands } from "./commands";
+import { configPath, configTypes, configValueDefaults, defaultNaming, readProjectConfig, type ProjectConfig } from "./config";
+import { collectImages, outputImageManifest, readImageAssetMap } from "./images";
+import { outputTypeModules } from "./layout";
+import { dataLoaderFileName, outputDataLoaderRuntime } from "./dataLoader";
+import { checkTranslations, outputLocalizationFiles, readLocalization, type LocalizationOptions } from "./localization";
+import { outputPaths, pathsFileName } from "./paths";
+import { outputSchemas } from "./schema";
+import { outputDataSetIndex } from "./dataSetIndex";
+import { findSetUnsetProperties, findUnsetProperties, outputDataSets, type GeneratedDataSet } from "./datasets";
+import type { Diagnostic } from "./diagnostics";
+import { nullableProperties, outputTypes, readStructures } from "./structures";
+import type { DataFormat, EnumStyle, NoesisStructureMap, OutputLayout, OutputNaming, OutputOptions, SetOptions, TypeConfig, ValueDefaults } from "./types";
+
+// options left undefined fall back to the project config, then to their defaults
+export type GenerateOptions = {
+  // Noesis project root directory, containing the .noesis/data folder
+  projectPath: string;
+  // read from noesis2hzw.config.json or noesis2hzw.config.ts in the project root when omitted
+  config?: ProjectConfig;
+  // only generate this data set, all if omitted
+  setName?: string;
+  indentLevel?: number;
+  // defaults to string enums
+  enumStyle?: EnumStyle;
+  // prefix type names with their structure namespace, for projects reusing short names
+  prefixNamespaces?: boolean;
+  // defaults to a single NoesisTypes.ts
+  layout?: OutputLayout;
+  // defaults to TypeScript data context factories
+  dataFormat?: DataFormat;
+  // also generate reactive binding wrappers
+  bindings?: boolean;
+  // also generate typed binding path builders
+  paths?: boolean;
+  // also generate JSON Schema documents
+  schema?: boolean;
+  // JSON file mapping image paths to Horizon texture asset IDs; mapped images become ImageSource objects
+  imageMap?: string;
+  // extract String values into a string table and localize the data sets
+  localization?: Partial<LocalizationOptions>;
+  defaults?: Partial<ValueDefaults>;
+  naming?: Partial<OutputNaming>;
+  typesOnly?: boolean;
+  isVerbose?: boolean;
+  // cache of the previous run; sets it still holds are not read again
+  previous?: PreviousGeneration;
+};
+
+// generate options with the project config applied, which watch mode regenerates with
+export type ResolvedOptions = {
+  outputOptions: OutputOptions;
+  types: TypeConfig;
+  imageMap?: string;
+  localization?: LocalizationOptions;
+};
+
+export type GenerateResult = {
+  // generated source keyed by output file name
+  files: Map<string, string>;
+  diagnostics: Diagnostic[];
+  structures: NoesisStructureMap;
+  dataSets: GeneratedDataSet[];
+  // properties generated as nullable, as Class.Property
+  nullable: Set<string>;
+  options: ResolvedOptions;
+  // cache of this run, to be written with the files
+  cache: GenerationCache;
+};
+
+export function projectDataPath(projectPath: string): string {
+  return `${projectPath}/.noesis/data`;
+}
+
+// every set is read, so generating a single set or only the types gives the same types as a full run
+export async function readNullableProperties(structures: NoesisStructureMap, dataPath: string): Promise<Set<string>> {
+  return nullableProperties(structures, await findUnsetProperties(structures, dataPath));
+}
+
+// files generated from the structures, and which of their properties the sets leave unset
+export function outputStructureFiles(structures: NoesisStructureMap, nullable: Set<string>, isVerbose: boolean, options: OutputOptions): Map<string, string> {
+  const files = new Map<string, string>();
+  if (options.layout === "single") {
+    files.set(options.naming.typesFile, outputTypes(structures, isVerbose, options, nullable));
+  } else {
+    outputTypeModules(structures, isVerbose, options, nullable).forEach((source, file) => files.set(file, source));
+  }
+  if (options.bindings) {
+    files.set(bindingsFileName, outputBindings(structures, options, nullable));
+  }
+  if (options.paths) {
+    files.set(pathsFileName, outputPaths(structures, options));
+  }
+  if (options.dataFormat === "json") {
+    files.set(dataLoaderFileName, outputDataLoaderRuntime(options));
+  }
+  if (options.schema) {
+    outputSchemas(structures, options, nullable).forEach((source, file) => files.set(file, source));
+  }
+  return files;
+}
+
+function resolveLocalization(options: GenerateOptions, config: ProjectConfig): LocalizationOptions | undefined {
+  const format = options.localization?.format ?? config.localization?.format;
+  if (!format) {
+    return undefined;
+  }
+  return {
+    format,
+    output: options.localization?.output ?? config.localization?.output ?? "lookup",
+    sourceLocale: options.localization?.sourceLocale ?? config.localization?.sourceLocale ?? "en",
+    translationsPath: options.localization?.translationsPath ?? configPath(options.projectPath, config.localization?.translationsPath),
+  };
+}
+
+// explicit options win over the project config, which wins over the defaults
+export function resolveOptions(options: GenerateOptions, config: ProjectConfig): ResolvedOptions {
+  const sets: Record<string, SetOptions> = config.sets ?? {};
+  return {
+    outputOptions: {
+      indentLevel: Number(options.indentLevel ?? config.indentLevel ?? 2),
+      enumStyle: options.enumStyle ?? config.enumStyle ?? "string",
+      prefixNamespaces: options.prefixNamespaces ?? config.prefixNamespaces ?? false,
+      layout: options.layout ?? config.layout ?? "single",
+      dataFormat: options.dataFormat ?? config.dataFormat ?? "ts",
+      bindings: options.bindings ?? config.bindings ?? false,
+      paths: options.paths ?? config.paths ?? false,
+      schema: options.schema ?? config.schema ?? false,
+      defaults: { ...configValueDefaults(config), ...options.defaults },
+      naming: { ...defaultNaming, ...config.naming, ...options.naming },
+      sets,
+    },
+    types: configTypes(config),
+    imageMap: options.imageMap ?? configPath(options.projectPath, config.imageMap),
+    localization: resolveLocalization(options, config),
+  };
+}
+
+// run the whole conversion in memory; only the Noesis project is read
+export async function generate(options: GenerateOptions): Promise<GenerateResult> {
+  const isVerbose = options.isVerbose ?? false;
+  const diagnostics: Diagnostic[] = [];
+  const config = options.config ?? await readProjectConfig(options.projectPath, diagnostics);
+  const resolved = resolveOptions(options, config);
+  const outputOptions = resolved.outputOptions;
+  const dataPath = projectDataPath(options.projectPath);
+  let dataSets: GeneratedDataSet[] = [];
+
+  const structures = await readStructures(dataPath, isVerbose, diagnostics, outputOptions.prefixNamespaces, resolved.types);
+  // structures are always read, as every output depends on them; sets are only read when they or a structure they reach changed
+  const hashes = structureHashes(structures);
+  const optionsKey = optionsHash(resolved, [resolved.imageMap, resolved.localization?.translationsPath].filter((file) => file !== undefined));
+  const sets = setHashes(dataPath);
+  const reusable = reusableSets(options.previous, optionsKey, hashes, sets);
+  const setUnsetProperties = await findSetUnsetProperties(structures, dataPath, new Map(Array.from(reusable, ([file, cachedSet]) => [file, cachedSet.unsetProperties])));
+  const nullable = nullableProperties(structures, new Set(Array.from(setUnsetProperties.values()).flat()));
+  const files = outputStructureFiles(structures, nullable, isVerbose, outputOptions);
+  if (!options.typesOnly) {
+    const imageAssets = resolved.imageMap ? readImageAssetMap(resolved.imageMap, diagnostics) : undefined;
+    const localization = resolved.localization ? await readLocalization(resolved.localization, diagnostics) : undefined;
+    const reused = new Map<string, GeneratedDataSet>();
+    reusable.forEach((cachedSet, file) => {
+      if (cachedSet.dataSet) {
+        reused.set(file, restoreDataSet(cachedSet.dataSet, options.previous!.sources));
+      }
+    });
+    dataSets = await outputDataSets(structures, dataPath, options.setName, isVerbose, outputOptions, imageAssets, localization, diagnostics, reused);
+    dataSets.forEach((dataSet) => {
+      files.set(dataSet.outputFile, dataSet.source);
+      dataSet.localizedFiles.forEach((source, file) => files.set(file, source));
+      dataSet.dataFiles.forEach((source, file) => files.set(file, source));
+    });
+    // the registry, manifest, index and string table need every set, so a single set leaves them alone
+    if (!options.setName) {
+      files.set(outputOptions.naming.commandsFile, outputCommands(dataSets.flatMap((dataSet) => dataSet.commandMessages), outputOptions.indentLevel));
+      files.set(outputOptions.naming.imagesFile, outputImageManifest(collectImages(dataSets), imageAssets ?? new Map(), outputOptions.indentLevel));
+      files.set(outputOptions.naming.dataSetIndexFile, outputDataSetIndex(structures, dataSets, outputOptions));
+      if (localization) {
+        const strings = dataSets.flatMap((dataSet) => dataSet.strings);
+        outputLocalizationFiles(strings, localization, outputOptions.indentLevel).forEach((source, file) => files.set(file, source));
+        checkTranslations(strings, localization.translations, diagnostics);
+      }
+    }
+  }
+  const cache = generationCache(options.previous, optionsKey, structures, hashes, sets, setUnsetProperties, reusable, dataSets, files);
+  return { files, diagnostics, structures, dataSets, nullable, options: resolved, cache };
+}
+
+// write generated files to the output directory, resolving once everything is on disk.
+// files whose source matches the unchanged output of the previous run are left untouched.
+export async function writeGeneratedFiles(files: Map<string, string>, outputDirectory: string, isVerbose: boolean, previousSources: Map<string, string> = new Map()) {
+  await fs.promises.mkdir(outputDirectory, { recursive: true });
+  for (const [file, source] of files) {
+    if (previousSources.get(file) === source) {
+      continue;
+    }
+    if (isVerbose) {
+      console.log(`- writing ${file}`);
+    }
+    // file names may include a subdirectory, such as types/ for the type modules
+    await fs.promises.mkdir(path.dirname(`${outputDirectory}/${file}`), { recursive: true });
+    await fs.promises.writeFile(`${outputDirectory}/${file}`, source);
+  }
+}
@@ -0,0 +1,104 @@
+import fs from "node:fs";
+import path from "node:path";
+import { reportDiagnostic, type Diagnostic } from "./diagnostics";
+import { getErrorMessage } from "./xml";
+
+export const imagesFileName = "NoesisImages.ts";
+
+// name of the manifest function data sets call to construct an ImageSource
+export const imageSourceFunction = "imageSource";
+
+// Horizon texture asset ID per image path, as relative to the Noesis project root
+export type ImageAssetMap = Map<string, string>;
+
+// image path of a pack URI, e.g. /Assembly;component/Images/coin.png gives Images/coin.png
+export function imageUriPath(uri: string): string | undefined {
+  return uri.split(";", 2)[1]?.replace("component/", "") || undefined;
+}
+
+// whether an image path names a file under the Noesis project owning the data path
+export function imageFileExists(dataPath: string, imagePath: string): boolean {
+  return fs.existsSync(path.join(dataPath, "..", "..", imagePath));
+}
+
+// read a JSON object mapping image paths to Horizon texture asset IDs
+export function readImageAssetMap(file: string, diagnostics: Diagnostic[]): ImageAssetMap {
+  const assets: ImageAssetMap = new Map();
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    reportDiagnostic(diagnostics, "error", "read-error", `Error reading image asset map: ${getErrorMessage(e)}`, { file });
+    return assets;
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    reportDiagnostic(diagnostics, "error", "invalid-value", "Image asset map must be an object of image paths to asset IDs", { file });
+    return assets;
+  }
+  Object.entries(data).forEach(([imagePath, assetId]) => {
+    // asset IDs exceed the safe integer range, so numbers are only accepted when exact
+    const id = typeof assetId === "number" && Number.isSafeInteger(assetId) ? `${assetId}` : assetId;
+    if (typeof id === "string" && /^\d+$/.test(id)) {
+      assets.set(imagePath.replace(/^\/+/, ""), id);
+    } else {
+      reportDiagnostic(diagnostics, "error", "invalid-value", `Asset ID of image ${imagePath} must be a string of digits: ${JSON.stringify(assetId)}`, { file });
+    }
+  });
+  return assets;
+}
+
+// generate the manifest of every image the data sets reference, keyed by path with the sets using it
+export function outputImageManifest(images: Map<string, string[]>, assets: ImageAssetMap, indentLevel: number): string {
+  const indent = " ".repeat(indentLevel);
+  const paths = Array.from(images.keys()).sort();
+  let output = `// Auto-generated manifest of the images referenced by Noesis data sets\n\n`;
+  output += `import { TextureAsset } from "horizon/core";\n`;
+  output += `import { ImageSource } from "horizon/ui";\n\n`;
+  output += `// Every image path, relative to the Noesis project root, used by any data set\n`;
+  if (paths.length > 0) {
+    output += `export type ImagePath =\n${paths.map((imagePath) => `${indent}| ${JSON.stringify(imagePath)}`).join("\n")};\n\n`;
+  } else {
+    output += `export type ImagePath = never;\n\n`;
+  }
+  output += `export type ImageAsset = {\n`;
+  output += `${indent}// data sets referencing the image\n`;
+  output += `${indent}sets: string[];\n`;
+  output += `${indent}// Horizon texture asset ID, when the image asset map has one\n`;
+  output += `${indent}assetId?: string;\n`;
+  output += `};\n\n`;
+  output += `export const imageManifest: Record<ImagePath, ImageAsset> = {\n`;
+  paths.forEach((imagePath) => {
+    const sets = images.get(imagePath)!.map((set) => JSON.stringify(set)).join(", ");
+    const assetId = assets.get(imagePath);
+    output += `${indent}${JSON.stringify(imagePath)}: { sets: [${sets}]${assetId ? `, assetId: "${assetId}"` : ""} },\n`;
+  });
+  output += `};\n\n`;
+  output += `// the manifest indexed by string, so the lookup also compiles for a manifest without images, whose ImagePath is never\n`;
+  output += `const imageAssets: Record<string, ImageAsset | undefined> = imageManifest;\n\n`;
+  output += `const imageSources = new Map<ImagePath, ImageSource>();\n\n`;
+  output += `// ImageSource of a mapped image, created once and shared by every data context\n`;
+  output += `export function ${imageSourceFunction}(path: ImagePath): ImageSource {\n`;
+  output += `${indent}let source = imageSources.get(path);\n`;
+  output += `${indent}if (!source) {\n`;
+  output += `${indent}${indent}const assetId = imageAssets[path]?.assetId;\n`;
+  output += `${indent}${indent}if (assetId === undefined) {\n`;
+  output += `${indent}${indent}${indent}throw new Error(\`No Horizon texture asset mapped for image \${path}\`);\n`;
+  output += `${indent}${indent}}\n`;
+  output += `${indent}${indent}source = ImageSource.fromTextureAsset(new TextureAsset(BigInt(assetId)));\n`;
+  output += `${indent}${indent}imageSources.set(path, source);\n`;
+  output += `${indent}}\n`;
+  output += `${indent}return source;\n`;
+  output += `}\n`;
+  return output;
+}
+
+// images of every generated set, each with the names of the sets using it
+export function collectImages(dataSets: { setFile: string; images: string[] }[]): Map<string, string[]> {
+  const images = new Map<string, string[]>();
+  dataSets.forEach((dataSet) => {
+    dataSet.images.forEach((imagePath) => {
+      images.set(imagePath, [...(images.get(imagePath) ?? []), dataSet.setFile.replace(".xaml", "")]);
+    });
+  });
+  return images;
+}
@@ -0,0 +1,7 @@
+export { generate, writeGeneratedFiles, type GenerateOptions, type GenerateResult } from "./generate";
+export { exportSet, type ExportSetOptions, type ExportSetResult } from "./export";
+export { readProjectConfig, type ProjectConfig } from "./config";
+export { sampleSet, type SampleSetOptions, type SampleSetResult } from "./sample";
+export { lintViews, type LintViewsOptions, type LintViewsResult } from "./lint";
+export { formatDiagnostic, hasErrors, type Diagnostic, type DiagnosticCode, type DiagnosticSeverity, type SourceLocation } from "./diagnostics";
+export type { DataFormat, EnumStyle, NoesisBuiltIn, NoesisClass, NoesisEnum, NoesisProperty, NoesisStructureMap, NoesisType } from "./types";
@@ -0,0 +1,138 @@
+import { factoryName } from "./factories";
+import { directDependencies, outputCommonTypes, outputStructure } from "./structures";
+import { validatorName } from "./validators";
+import type { NoesisBuiltIn, NoesisClass, NoesisEnum, NoesisStructureMap, OutputOptions } from "./types";
+
+// directory of the type modules in the structure and namespace layouts
+export const typesDirectory = "types";
+
+// module holding the color and brush types, commands and validation helpers
+const commonModule = "common";
+
+const commonNames = ["RGBA", "colorString", "BrushPoint", "GradientStop", "LinearGradientBrush", "RadialGradientBrush", "Brush", "commandMessageKey", "unsetCommand", "messageCommand", "ValidationIssue", "countWords", "countDecimals"];
+
+type Structure = NoesisClass | NoesisEnum | NoesisBuiltIn;
+
+function structureNamespace(structure: Structure): string {
+  return structure.qualifiedName.length > structure.name.length ? structure.qualifiedName.slice(0, -structure.name.length - 1) : "";
+}
+
+// module of a structure inside the types directory; built-ins and structures without a namespace share "global"
+function moduleName(structure: Structure, options: OutputOptions): string {
+  return options.layout === "namespace" ? structureNamespace(structure) || "global" : structure.typeName;
+}
+
+// import path of the module defining a structure, relative to the output directory
+export function typeModulePath(structure: Structure, options: OutputOptions): string {
+  if (options.layout === "single") {
+    return `./${options.naming.typesFile.replace(".ts", "")}`;
+  }
+  return `./${typesDirectory}/${moduleName(structure, options)}`;
+}
+
+// import path exporting every generated type, relative to the output directory
+export function typesImportPath(options: OutputOptions): string {
+  return options.layout === "single" ? `./${options.naming.typesFile.replace(".ts", "")}` : `./${typesDirectory}`;
+}
+
+// import path of the color and brush types, commands and validation helpers, relative to the output directory
+export function commonImportPath(options: OutputOptions): string {
+  return options.layout === "single" ? typesImportPath(options) : `./${typesDirectory}/${commonModule}`;
+}
+
+function exportedNames(structure: Structure): string[] {
+  switch (structure.type) {
+    case "Class":
+      return [structure.typeName, validatorName(structure.typeName), factoryName(structure.typeName)];
+    case "Enum":
+      return [structure.typeName, `${structure.typeName}Values`];
+    case "BuiltIn":
+      return [];
+  }
+}
+
+// import statements, one per module path, in insertion order
+export function outputImports(imports: Map<string, string[]>): string {
+  let output = "";
+  imports.forEach((names, path) => {
+    output += `import { ${names.join(", ")} } from "${path}";\n`;
+  });
+  return output;
+}
+
+export function addImport(imports: Map<string, string[]>, path: string, name: string) {
+  const names = imports.get(path) ?? [];
+  if (!names.includes(name)) {
+    names.push(name);
+  }
+  imports.set(path, names);
+}
+
+// imports for the names a module body uses, out of those its structures' dependencies export
+function moduleImports(structures: NoesisStructureMap, members: Structure[], module: string, body: string, options: OutputOptions): Map<string, string[]> {
+  const candidates = new Map<string, string>();
+  candidates.set("ImageSource", "horizon/ui");
+  commonNames.forEach((name) => candidates.set(name, `./${commonModule}`));
+  members.forEach((member) => {
+    directDependencies(structures, member.qualifiedName).forEach((dependencyName) => {
+      const dependency = structures.get(dependencyName);
+      if (!dependency || dependency.type === "BuiltIn" || moduleName(dependency, options) === module) {
+        return;
+      }
+      exportedNames(dependency).forEach((name) => candidates.set(name, `./${moduleName(dependency, options)}`));
+    });
+  });
+  const imports = new Map<string, string[]>();
+  candidates.forEach((path, name) => {
+    if (new RegExp(`\\b${name.replace(/\$/g, "\\$")}\\b`).test(body)) {
+      addImport(imports, path, name);
+    }
+  });
+  return imports;
+}
+
+// generate one module per structure or namespace, the common module and the barrel, keyed by file path
+export function outputTypeModules(structures: NoesisStructureMap, isVerbose: boolean, options: OutputOptions, nullable: Set<string>): Map<string, string> {
+  const modules = new Map<string, Structure[]>();
+  structures.forEach((structure) => {
+    if (structure.type === "BuiltIn") {
+      return;
+    }
+    const module = moduleName(structure, options);
+    modules.set(module, [...(modules.get(module) ?? []), structure]);
+  });
+  if (isVerbose) {
+    console.log(`Generating ${modules.size} TypeScript modules for ${structures.size} Noesis structures`);
+  }
+
+  const files = new Map<string, string>();
+  files.set(`${typesDirectory}/${commonModule}.ts`, `// Auto-generated definitions shared by the Noesis structure modules\n\n` + outputCommonTypes(options.indentLevel, true));
+  let index = `// Auto-generated index of the Noesis structure modules\n\n`;
+  index += `export * from "./${commonModule}";\n`;
+  modules.forEach((members, module) => {
+    if (isVerbose) {
+      console.log(`- ${module}`);
+    }
+    const body = members.map((structure) => outputStructure(structures, structure, options, nullable)).join("");
+    const imports = outputImports(moduleImports(structures, members, module, body, options));
+    let output = `// Auto-generated TypeScript definitions for Noesis structures: ${members.map((structure) => structure.qualifiedName).join(", ")}\n\n`;
+    if (imports) {
+      output += `${imports}\n`;
+    }
+    files.set(`${typesDirectory}/${module}.ts`, output + body);
+    index += `export * from "./${module}";\n`;
+  });
+  files.set(`${typesDirectory}/index.ts`, index);
+  return files;
+}
+
+// imports of a data set file for the structures it names, each from its own module
+export function dataSetImports(structures: NoesisStructureMap, references: Set<string>, options: OutputOptions): Map<string, string[]> {
+  const imports = new Map<string, string[]>();
+  structures.forEach((structure) => {
+    if (structure.type !== "BuiltIn" && references.has(structure.qualifiedName)) {
+      addImport(imports, typeModulePath(structure, options), structure.typeName);
+    }
+  });
+  return imports;
+}
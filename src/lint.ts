@@ -0,0 +1,310 @@
+import fs from "node:fs";
+import path from "node:path";
+import { configTypes, readProjectConfig, type ProjectConfig } from "./config";
+import { nodeLocation, reportDiagnostic, type Diagnostic } from "./diagnostics";
+import { projectDataPath } from "./generate";
+import { readStructures } from "./structures";
+import { declaredNamespaces, getErrorMessage, getErrorPosition, parseNoesisXml } from "./xml";
+import { resolveElementStructure, structureElementName, type NoesisProperty, type NoesisStructureMap } from "./types";
+
+export type LintViewsOptions = {
+  // Noesis project root directory, containing the .noesis/data folder
+  projectPath: string;
+  // read from the project root when omitted
+  config?: ProjectConfig;
+  // view files to check; every .xaml file of the project outside hidden folders when omitted
+  views?: string[];
+  // set every view is checked against; otherwise the set a view references, or the set named like the view
+  setName?: string;
+  isVerbose?: boolean;
+};
+
+export type LintViewsResult = {
+  // views checked, with the set each was checked against
+  views: { file: string; setName: string }[];
+  bindingCount: number;
+  diagnostics: Diagnostic[];
+};
+
+// what a binding path leads to: a class, a collection of items, or a plain value
+type BindingType =
+  | { kind: "class"; name: string }
+  | { kind: "collection"; item: BindingType }
+  | { kind: "value" };
+
+type ViewContext = {
+  structures: NoesisStructureMap;
+  file: string;
+  diagnostics: Diagnostic[];
+  bindingCount: number;
+};
+
+// bindings with one of these read from something other than the data context
+const sourceArguments = ["ElementName", "RelativeSource", "Source"];
+
+function subTypeBindingType(structures: NoesisStructureMap, subType: string): BindingType {
+  const structure = structures.get(subType);
+  return structure?.type === "Class" ? { kind: "class", name: structure.qualifiedName } : { kind: "value" };
+}
+
+function propertyBindingType(structures: NoesisStructureMap, property: NoesisProperty): BindingType {
+  switch (property.type) {
+    case "Object":
+      return subTypeBindingType(structures, property.subType);
+    case "Collection":
+      return { kind: "collection", item: subTypeBindingType(structures, property.subType) };
+    default:
+      return { kind: "value" };
+  }
+}
+
+function describeType(structures: NoesisStructureMap, type: BindingType): string {
+  switch (type.kind) {
+    case "class":
+      return structureElementName(structures, type.name);
+    case "collection":
+      return `collection of ${describeType(structures, type.item)}`;
+    case "value":
+      return "plain value";
+  }
+}
+
+// arguments of a markup extension, split at the commas outside nested extensions and indexers
+function markupArguments(text: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      args.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  args.push(text.slice(start).trim());
+  return args.filter((arg) => arg !== "");
+}
+
+// path of a {Binding ...} value, "" for the data context itself; undefined for other values and for bindings to other sources
+function bindingPath(value: unknown): string | undefined {
+  const match = typeof value === "string" ? /^\s*\{\s*Binding(?:\s+([\s\S]*))?\}\s*$/.exec(value) : null;
+  if (!match) {
+    return undefined;
+  }
+  let pathValue = "";
+  for (const arg of markupArguments(match[1] ?? "")) {
+    const separator = arg.search(/[=[]/);
+    const name = separator >= 0 && arg[separator] === "=" ? arg.slice(0, separator).trim() : undefined;
+    if (name === undefined) {
+      pathValue = arg;
+    } else if (name === "Path") {
+      pathValue = arg.slice(separator + 1).trim();
+    } else if (sourceArguments.includes(name)) {
+      return undefined;
+    }
+  }
+  return pathValue;
+}
+
+// steps of a binding path, e.g. Items, [2] and Price for Items[2].Price; undefined for attached properties and casts,
+// which the lint does not follow
+function pathSteps(bindingPath: string): string[] | undefined {
+  if (/[()]/.test(bindingPath)) {
+    return undefined;
+  }
+  const steps = bindingPath.match(/[A-Za-z_]\w*|\[[^\]]*\]|\//g) ?? [];
+  return steps.join("") === bindingPath.replace(/[\s.]/g, "") ? steps : undefined;
+}
+
+// type a binding path leads to from the data context, or why it does not resolve
+function resolveBindingPath(structures: NoesisStructureMap, dataContext: BindingType, steps: string[]): { type: BindingType } | { error: string } {
+  let current = dataContext;
+  for (const step of steps) {
+    if (current.kind === "value") {
+      // members of plain values, such as Title.Length, are not structure properties and are not checked
+      break;
+    }
+    if (step.startsWith("[") || step === "/") {
+      // an indexer, or the current item of the collection
+      if (current.kind !== "collection") {
+        return { error: `${describeType(structures, current)} is not a collection` };
+      }
+      current = current.item;
+    } else if (current.kind === "collection" && step === "Count") {
+      current = { kind: "value" };
+    } else if (current.kind === "class") {
+      const structure = structures.get(current.name);
+      const property = structure?.type === "Class" ? structure.properties.get(step) : undefined;
+      if (!property) {
+        return { error: `${describeType(structures, current)} has no property ${step}` };
+      }
+      current = propertyBindingType(structures, property);
+    } else {
+      return { error: `${describeType(structures, current)} has no property ${step}` };
+    }
+  }
+  return { type: current };
+}
+
+// type of a binding value of an element, undefined when it is no data context binding or does not resolve, which is reported
+function checkBinding(context: ViewContext, element: any, attribute: string, value: unknown, dataContext: BindingType | undefined): BindingType | undefined {
+  const bindingValue = bindingPath(value);
+  const steps = bindingValue === undefined ? undefined : pathSteps(bindingValue);
+  if (!steps || !dataContext) {
+    return undefined;
+  }
+  context.bindingCount++;
+  const resolved = resolveBindingPath(context.structures, dataContext, steps);
+  const contextName = describeType(context.structures, dataContext);
+  if ("error" in resolved) {
+    reportDiagnostic(context.diagnostics, "error", "unresolved-binding-path", `${attribute} binding path ${bindingValue} does not resolve against ${contextName}: ${resolved.error}`, nodeLocation(context.file, element), bindingValue ? `${contextName}.${bindingValue}` : contextName);
+    return undefined;
+  }
+  return resolved.type;
+}
+
+// check the bindings of an element and its descendants; dataContext is undefined where the lint cannot tell it, such as in
+// resources and control templates, and templateContext is the data context of the data templates of the element
+function checkElement(context: ViewContext, element: any, dataContext: BindingType | undefined, templateContext: BindingType | undefined) {
+  if (typeof element !== "object" || element === null) {
+    return;
+  }
+  // a DataContext binding resolves against the inherited data context and sets the element's own
+  if (element.DataContext !== undefined) {
+    dataContext = bindingPath(element.DataContext[0]) !== undefined ? checkBinding(context, element, "DataContext", element.DataContext[0], dataContext) : undefined;
+  }
+  Object.entries(element).forEach(([name, values]) => {
+    if (name === "DataContext" || !Array.isArray(values)) {
+      return;
+    }
+    values.forEach((value) => {
+      if (typeof value !== "string") {
+        return;
+      }
+      const type = checkBinding(context, element, name, value, dataContext);
+      if (name === "ItemsSource") {
+        if (type && type.kind !== "collection") {
+          reportDiagnostic(context.diagnostics, "error", "unresolved-binding-path", `ItemsSource binding path ${bindingPath(value)} leads to a ${describeType(context.structures, type)}, not a collection`, nodeLocation(context.file, element));
+        }
+        templateContext = type?.kind === "collection" ? type.item : undefined;
+      } else if (name === "Content" && bindingPath(value) !== undefined) {
+        templateContext = type;
+      }
+    });
+  });
+  Object.entries(element).forEach(([name, values]) => {
+    if (!Array.isArray(values)) {
+      return;
+    }
+    values.filter((value) => typeof value === "object" && value !== null).forEach((child) => {
+      if (name === "DataTemplate" || name === "HierarchicalDataTemplate") {
+        checkElement(context, child, templateContext, undefined);
+      } else if (name.endsWith(".Resources")) {
+        checkElement(context, child, undefined, undefined);
+      } else if (name.includes(".")) {
+        // property elements belong to the element, so its data templates are theirs
+        checkElement(context, child, dataContext, templateContext);
+      } else if (name.endsWith("Template")) {
+        checkElement(context, child, undefined, undefined);
+      } else {
+        checkElement(context, child, dataContext, undefined);
+      }
+    });
+  });
+}
+
+// .xaml files of the project outside hidden folders, such as .noesis
+function projectViews(projectPath: string): string[] {
+  return (fs.readdirSync(projectPath, { recursive: true }) as string[])
+    .map((file) => file.replace(/\\/g, "/"))
+    .filter((file) => file.toLowerCase().endsWith(".xaml") && !file.split("/").some((part) => part.startsWith(".")))
+    .sort()
+    .map((file) => path.join(projectPath, file));
+}
+
+// set a view binds to: the first set file it references, e.g. in d:DataContext="{d:DesignData Source=/.noesis/data/sets/ShopMenu.xaml}",
+// otherwise the set named like the view
+function viewSetName(source: string, file: string, setNames: Set<string>): string | undefined {
+  for (const match of source.matchAll(/sets\/([^/"'{}\s]+)\.xaml/g)) {
+    if (setNames.has(match[1]!)) {
+      return match[1];
+    }
+  }
+  const name = path.basename(file, path.extname(file));
+  return setNames.has(name) ? name : undefined;
+}
+
+// qualified name of the root structure of a set, undefined if the set cannot be read
+async function setRootStructure(structures: NoesisStructureMap, file: string, diagnostics: Diagnostic[]): Promise<string | undefined> {
+  try {
+    const result = await parseNoesisXml(fs.readFileSync(file, "utf8"), true);
+    const rootElement = Object.keys(result)[0]!;
+    const rootStructure = resolveElementStructure(structures, rootElement, declaredNamespaces(result[rootElement]));
+    if (!rootStructure || structures.get(rootStructure)?.type !== "Class") {
+      reportDiagnostic(diagnostics, "error", "unknown-structure-type", `Root element ${rootElement} does not name exactly one class structure`, nodeLocation(file, result[rootElement]));
+      return undefined;
+    }
+    return rootStructure;
+  } catch (e) {
+    const code = getErrorPosition(e) ? "xml-parse-error" : "read-error";
+    reportDiagnostic(diagnostics, "error", code, `Error reading data set: ${getErrorMessage(e)}`, { file, ...getErrorPosition(e) });
+    return undefined;
+  }
+}
+
+// check the {Binding ...} paths of .xaml views against the root structure of the set each view binds to
+export async function lintViews(options: LintViewsOptions): Promise<LintViewsResult> {
+  const isVerbose = options.isVerbose ?? false;
+  const dataPath = projectDataPath(options.projectPath);
+  const diagnostics: Diagnostic[] = [];
+  const config = options.config ?? await readProjectConfig(options.projectPath, diagnostics);
+  // nothing is generated here, so prefixed type names keep structures sharing a short name apart
+  const structures = await readStructures(dataPath, isVerbose, diagnostics, true, configTypes(config));
+  const setsDir = `${dataPath}/sets`;
+  const setNames = new Set(fs.existsSync(setsDir) ? fs.readdirSync(setsDir).filter((file) => file.endsWith(".xaml")).map((file) => file.replace(".xaml", "")) : []);
+  const rootStructures = new Map<string, string | undefined>();
+  const result: LintViewsResult = { views: [], bindingCount: 0, diagnostics };
+  for (const file of options.views ?? projectViews(options.projectPath)) {
+    let source: string;
+    try {
+      source = fs.readFileSync(file, "utf8");
+    } catch (e) {
+      reportDiagnostic(diagnostics, "error", "read-error", `Error reading view: ${getErrorMessage(e)}`, { file });
+      continue;
+    }
+    const setName = options.setName ?? viewSetName(source, file, setNames);
+    if (!setName) {
+      if (isVerbose) {
+        console.log(`- ${file} binds to no data set, skipped`);
+      }
+      continue;
+    }
+    if (!rootStructures.has(setName)) {
+      rootStructures.set(setName, await setRootStructure(structures, `${setsDir}/${setName}.xaml`, diagnostics));
+    }
+    const rootStructure = rootStructures.get(setName);
+    if (!rootStructure) {
+      continue;
+    }
+    if (isVerbose) {
+      console.log(`- checking ${file} against ${setName}`);
+    }
+    let view: any;
+    try {
+      view = await parseNoesisXml(source, true);
+    } catch (e) {
+      const code = getErrorPosition(e) ? "xml-parse-error" : "read-error";
+      reportDiagnostic(diagnostics, "error", code, `Error reading view: ${getErrorMessage(e)}`, { file, ...getErrorPosition(e) });
+      continue;
+    }
+    const context: ViewContext = { structures, file, diagnostics, bindingCount: 0 };
+    Object.values(view).forEach((root) => checkElement(context, root, { kind: "class", name: rootStructure }, undefined));
+    result.views.push({ file, setName });
+    result.bindingCount += context.bindingCount;
+  }
+  return result;
+}
@@ -0,0 +1,259 @@
+import fs from "node:fs";
+import path from "node:path";
+import xml2js from "xml2js";
+import { reportDiagnostic, type Diagnostic } from "./diagnostics";
+import { countWords } from "./setValidation";
+import { escapeXml, getErrorMessage } from "./xml";
+
+export type StringTableFormat = "json" | "xliff";
+
+export const stringTableFormats: StringTableFormat[] = ["json", "xliff"];
+
+// lookup: data sets call t(key) from the strings module; per-locale: one data set file per locale
+export type LocaleOutput = "lookup" | "per-locale";
+
+export const localeOutputs: LocaleOutput[] = ["lookup", "per-locale"];
+
+export const stringsFileName = "NoesisStrings.ts";
+
+// name of the lookup function data sets call in the lookup output
+export const lookupFunction = "t";
+
+// name of the function the loaders of the JSON data format check string keys built at run time with
+export const stringKeyCheckFunction = "isStringKey";
+
+export type LocalizationOptions = {
+  format: StringTableFormat;
+  output: LocaleOutput;
+  // locale of the strings in the Noesis data sets
+  sourceLocale: string;
+  // directory of <locale>.json or <locale>.xlf translation files
+  translationsPath?: string;
+};
+
+export type LocaleTranslations = {
+  file: string;
+  // translated string by key
+  strings: Map<string, string>;
+};
+
+// translations per locale
+export type Translations = Map<string, LocaleTranslations>;
+
+export type Localization = LocalizationOptions & {
+  translations: Translations;
+};
+
+// a String value of a data set, keyed by set name and property path
+export type ExtractedString = {
+  key: string;
+  // set the string was extracted from; set names may contain dots, so the key does not tell it
+  setName: string;
+  text: string;
+  minWordCount?: number;
+  maxWordCount?: number;
+};
+
+export function stringKey(setName: string, propertyPath: string): string {
+  return `${setName}.${propertyPath}`;
+}
+
+export function stringTableFileName(format: StringTableFormat): string {
+  return format === "json" ? "NoesisStrings.json" : "NoesisStrings.xlf";
+}
+
+// output file of a set for a locale, e.g. ShopMenu.fr.ts
+export function localizedFileName(outputFile: string, locale: string): string {
+  return outputFile.replace(".ts", `.${locale}.ts`);
+}
+
+function readJsonTranslations(file: string, diagnostics: Diagnostic[]): Map<string, string> {
+  const strings = new Map<string, string>();
+  const data = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    reportDiagnostic(diagnostics, "error", "invalid-value", "Translation file must be an object of string keys to translations", { file });
+    return strings;
+  }
+  Object.entries(data).forEach(([key, text]) => {
+    if (typeof text === "string") {
+      strings.set(key, text);
+    } else {
+      reportDiagnostic(diagnostics, "error", "invalid-value", `Translation of ${key} must be a string: ${JSON.stringify(text)}`, { file });
+    }
+  });
+  return strings;
+}
+
+function xmlText(node: unknown): string | undefined {
+  if (typeof node === "string") {
+    return node;
+  }
+  if (typeof node === "object" && node !== null && "_" in node) {
+    return `${node._}`;
+  }
+  return undefined;
+}
+
+async function readXliffTranslations(file: string): Promise<Map<string, string>> {
+  const strings = new Map<string, string>();
+  const data = await new xml2js.Parser({ mergeAttrs: true }).parseStringPromise(fs.readFileSync(file, "utf8"));
+  const files: any[] = data?.xliff?.file ?? [];
+  files.forEach((fileData) => {
+    const units: any[] = fileData?.body?.[0]?.["trans-unit"] ?? [];
+    units.forEach((unit) => {
+      const key = unit.id?.[0];
+      const text = xmlText(unit.target?.[0]);
+      if (key !== undefined && text !== undefined) {
+        strings.set(`${key}`, text);
+      }
+    });
+  });
+  return strings;
+}
+
+// read every <locale>.json and <locale>.xlf file of the translations directory
+export async function readTranslations(directory: string, diagnostics: Diagnostic[]): Promise<Translations> {
+  const translations: Translations = new Map();
+  let files: string[];
+  try {
+    files = fs.readdirSync(directory);
+  } catch (e) {
+    reportDiagnostic(diagnostics, "error", "read-error", `Error reading translations: ${getErrorMessage(e)}`, { file: directory });
+    return translations;
+  }
+  for (const file of files.sort()) {
+    const extension = path.extname(file);
+    const locale = path.basename(file, extension);
+    const filePath = path.join(directory, file);
+    try {
+      if (extension === ".json") {
+        translations.set(locale, { file: filePath, strings: readJsonTranslations(filePath, diagnostics) });
+      } else if (extension === ".xlf" || extension === ".xliff") {
+        translations.set(locale, { file: filePath, strings: await readXliffTranslations(filePath) });
+      }
+    } catch (e) {
+      reportDiagnostic(diagnostics, "error", "read-error", `Error reading translations: ${getErrorMessage(e)}`, { file: filePath });
+    }
+  }
+  return translations;
+}
+
+// the localization options with the translations they name
+export async function readLocalization(options: LocalizationOptions, diagnostics: Diagnostic[]): Promise<Localization> {
+  return { ...options, translations: options.translationsPath ? await readTranslations(options.translationsPath, diagnostics) : new Map() };
+}
+
+// translations of unknown keys, missing translations, and translations breaking the word counts of their property
+export function checkTranslations(strings: ExtractedString[], translations: Translations, diagnostics: Diagnostic[]) {
+  const extracted = new Map(strings.map((string) => [string.key, string]));
+  translations.forEach(({ file, strings: localeStrings }, locale) => {
+    localeStrings.forEach((text, key) => {
+      const string = extracted.get(key);
+      if (!string) {
+        reportDiagnostic(diagnostics, "warning", "unknown-string-key", `Translation for unknown string key ${key}`, { file }, key);
+        return;
+      }
+      const words = countWords(text);
+      if (string.minWordCount !== undefined && words < string.minWordCount) {
+        reportDiagnostic(diagnostics, "warning", "out-of-range", `${locale} translation expected at least ${string.minWordCount} words, got ${words}`, { file }, key);
+      }
+      if (string.maxWordCount !== undefined && words > string.maxWordCount) {
+        reportDiagnostic(diagnostics, "warning", "out-of-range", `${locale} translation expected at most ${string.maxWordCount} words, got ${words}`, { file }, key);
+      }
+    });
+    extracted.forEach((string, key) => {
+      if (!localeStrings.has(key)) {
+        reportDiagnostic(diagnostics, "warning", "missing-translation", `No ${locale} translation for string ${JSON.stringify(string.text)}`, { file }, key);
+      }
+    });
+  });
+}
+
+function outputJsonTable(strings: ExtractedString[], indentLevel: number): string {
+  const table: Record<string, string> = {};
+  strings.forEach((string) => {
+    table[string.key] = string.text;
+  });
+  return `${JSON.stringify(table, null, indentLevel)}\n`;
+}
+
+// XLIFF 1.2 with a file element per set
+function outputXliffTable(strings: ExtractedString[], sourceLocale: string, indentLevel: number): string {
+  const indent = " ".repeat(indentLevel);
+  const sets = new Map<string, ExtractedString[]>();
+  strings.forEach((string) => {
+    sets.set(string.setName, [...(sets.get(string.setName) ?? []), string]);
+  });
+  let output = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+  output += `<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">\n`;
+  sets.forEach((setStrings, setName) => {
+    output += `${indent}<file original="${escapeXml(`${setName}.xaml`)}" source-language="${escapeXml(sourceLocale)}" datatype="plaintext">\n`;
+    output += `${indent.repeat(2)}<body>\n`;
+    setStrings.forEach((string) => {
+      output += `${indent.repeat(3)}<trans-unit id="${escapeXml(string.key)}">\n`;
+      output += `${indent.repeat(4)}<source>${escapeXml(string.text)}</source>\n`;
+      output += `${indent.repeat(3)}</trans-unit>\n`;
+    });
+    output += `${indent.repeat(2)}</body>\n`;
+    output += `${indent}</file>\n`;
+  });
+  output += `</xliff>\n`;
+  return output;
+}
+
+// generate the lookup module: the source strings, every translation and t(key)
+function outputLookupModule(strings: ExtractedString[], localization: Localization, indentLevel: number): string {
+  const indent = " ".repeat(indentLevel);
+  const keys = strings.map((string) => JSON.stringify(string.key));
+  const locales = Array.from(new Set([localization.sourceLocale, ...localization.translations.keys()]));
+  let output = `// Auto-generated string lookup for Noesis data sets\n\n`;
+  output += `// Key of every extracted String value, as SetName.PropertyPath\n`;
+  if (keys.length > 0) {
+    output += `export type StringKey =\n${keys.map((key) => `${indent}| ${key}`).join("\n")};\n\n`;
+  } else {
+    output += `export type StringKey = never;\n\n`;
+  }
+  output += `export type Locale = ${locales.map((locale) => JSON.stringify(locale)).join(" | ")};\n\n`;
+  output += `const sourceStrings: Record<StringKey, string> = {\n`;
+  strings.forEach((string) => {
+    output += `${indent}${JSON.stringify(string.key)}: ${JSON.stringify(string.text)},\n`;
+  });
+  output += `};\n\n`;
+  output += `const translations: Partial<Record<Locale, Partial<Record<StringKey, string>>>> = {\n`;
+  localization.translations.forEach(({ strings: localeStrings }, locale) => {
+    output += `${indent}${JSON.stringify(locale)}: {\n`;
+    strings.forEach((string) => {
+      const text = localeStrings.get(string.key);
+      if (text !== undefined) {
+        output += `${indent.repeat(2)}${JSON.stringify(string.key)}: ${JSON.stringify(text)},\n`;
+      }
+    });
+    output += `${indent}},\n`;
+  });
+  output += `};\n\n`;
+  output += `let currentLocale: Locale = ${JSON.stringify(localization.sourceLocale)};\n\n`;
+  output += `// locale of the strings of data contexts created from now on\n`;
+  output += `export function setLocale(locale: Locale) {\n`;
+  output += `${indent}currentLocale = locale;\n`;
+  output += `}\n\n`;
+  output += `// string of the current locale, falling back to the source string when untranslated\n`;
+  output += `export function ${lookupFunction}(key: StringKey): string {\n`;
+  output += `${indent}return translations[currentLocale]?.[key] ?? sourceStrings[key];\n`;
+  output += `}\n\n`;
+  output += `// whether a key built at run time names an extracted string\n`;
+  output += `export function ${stringKeyCheckFunction}(key: string): key is StringKey {\n`;
+  output += `${indent}return key in sourceStrings;\n`;
+  output += `}\n`;
+  return output;
+}
+
+// the string table, plus the lookup module in the lookup output, from the strings of every set
+export function outputLocalizationFiles(strings: ExtractedString[], localization: Localization, indentLevel: number): Map<string, string> {
+  const files = new Map<string, string>();
+  const table = localization.format === "json" ? outputJsonTable(strings, indentLevel) : outputXliffTable(strings, localization.sourceLocale, indentLevel);
+  files.set(stringTableFileName(localization.format), table);
+  if (localization.output === "lookup") {
+    files.set(stringsFileName, outputLookupModule(strings, localization, indentLevel));
+  }
+  return files;
+}
@@ -0,0 +1,95 @@
+import { typesImportPath } from "./layout";
+import { type NoesisClass, type NoesisProperty, type NoesisStructureMap, type OutputOptions } from "./types";
+
+export const pathsFileName = "NoesisPaths.ts";
+
+export function pathTypeName(structureName: string): string {
+  return `${structureName}Path`;
+}
+
+// path type of a value of the given subtype; only classes have members to continue with
+function subTypePathType(structures: NoesisStructureMap, subType: string): string {
+  const structure = structures.get(subType);
+  return structure?.type === "Class" ? pathTypeName(structure.typeName) : "BindingPath";
+}
+
+function propertyPathType(structures: NoesisStructureMap, property: NoesisProperty): string {
+  switch (property.type) {
+    case "Object":
+      return subTypePathType(structures, property.subType);
+    case "Collection":
+      return `CollectionPath<${subTypePathType(structures, property.subType)}>`;
+    default:
+      return "BindingPath";
+  }
+}
+
+function outputClassPath(structures: NoesisStructureMap, structure: NoesisClass, indentLevel: number): string {
+  const indent = " ".repeat(indentLevel);
+  let output = `export type ${pathTypeName(structure.typeName)} = BindingPath & {\n`;
+  structure.properties.forEach((property, propName) => {
+    output += `${indent}${propName}: ${propertyPathType(structures, property)};\n`;
+  });
+  output += `};\n\n`;
+  return output;
+}
+
+// runtime builder; paths are built from member names alone, so it needs no structure information
+function outputPathRuntime(indentLevel: number): string {
+  const i1 = " ".repeat(indentLevel);
+  const i2 = i1.repeat(2);
+  const i3 = i1.repeat(3);
+  const i4 = i1.repeat(4);
+  return `// A node is callable, so at(index) works even under classes with an at property of their own\n` +
+    `function pathNode(path: string, parent: string): any {\n` +
+    `${i1}return new Proxy(() => undefined, {\n` +
+    `${i2}get: (_, key) => {\n` +
+    `${i3}if (key === "toString" || key === Symbol.toPrimitive) {\n` +
+    `${i4}return () => path;\n` +
+    `${i3}}\n` +
+    `${i3}if (typeof key === "symbol") {\n` +
+    `${i4}return undefined;\n` +
+    `${i3}}\n` +
+    `${i3}return pathNode(path ? \`\${path}.\${key}\` : key, path);\n` +
+    `${i2}},\n` +
+    `${i2}apply: (_, __, [index]) => pathNode(\`\${parent}[\${index}]\`, parent),\n` +
+    `${i1}});\n` +
+    `}\n\n` +
+    `// Typed builder of binding paths from a data context class, e.g. path<ShopRoot>().Items.at(2).Price.toString() gives Items[2].Price\n` +
+    `export function path<T>(): PathOf<T> {\n` +
+    `${i1}return pathNode("", "");\n` +
+    `}\n`;
+}
+
+// generate typed binding path builders for every class
+export function outputPaths(structures: NoesisStructureMap, options: OutputOptions): string {
+  const indent = " ".repeat(options.indentLevel);
+  const classes = Array.from(structures.values()).filter((structure): structure is NoesisClass => structure.type === "Class");
+  let output = `// Auto-generated typed binding paths for Noesis structures\n\n`;
+  if (classes.length > 0) {
+    output += `import type { ${classes.map((structure) => structure.typeName).join(", ")} } from "${typesImportPath(options)}";\n\n`;
+  }
+  output += `// A binding path; toString() gives it as Noesis XAML bindings write it\n`;
+  output += `export type BindingPath = {\n`;
+  output += `${indent}toString(): string;\n`;
+  output += `};\n\n`;
+  output += `// A path to a collection; at(index) continues with one of its items\n`;
+  output += `export type CollectionPath<ItemPath> = BindingPath & {\n`;
+  output += `${indent}at(index: number): ItemPath;\n`;
+  output += `};\n\n`;
+  classes.forEach((structure) => {
+    output += outputClassPath(structures, structure, options.indentLevel);
+  });
+  output += `// Every class with its path type, by type name\n`;
+  output += `type ClassPaths = {\n`;
+  classes.forEach((structure) => {
+    output += `${indent}${structure.typeName}: [${structure.typeName}, ${pathTypeName(structure.typeName)}];\n`;
+  });
+  output += `};\n\n`;
+  output += `// Path type of a class; classes of the same shape share their paths\n`;
+  output += `export type PathOf<T> = {\n`;
+  output += `${indent}[Name in keyof ClassPaths]: [T] extends [ClassPaths[Name][0]] ? [ClassPaths[Name][0]] extends [T] ? ClassPaths[Name][1] : never : never;\n`;
+  output += `}[keyof ClassPaths];\n\n`;
+  output += outputPathRuntime(options.indentLevel);
+  return output;
+}
@@ -0,0 +1,215 @@
+import fs from "node:fs";
+import { basename, resolve } from "node:path";
+import { readProjectConfig } from "./config";
+import { outputDataSet, type GeneratedDataSet } from "./datasets";
+import { reportDiagnostic, type Diagnostic } from "./diagnostics";
+import { exportDataSet } from "./export";
+import { projectDataPath, resolveOptions, type GenerateOptions } from "./generate";
+import { readStructures } from "./structures";
+import { resolveElementStructure, type NoesisProperty, type NoesisStructureMap } from "./types";
+
+export type SampleSetOptions = Omit<GenerateOptions, "setName" | "typesOnly" | "imageMap" | "localization"> & {
+  // qualified structure name, or an element name naming exactly one structure
+  structure: string;
+  // defaults to <Structure>Sample
+  setName?: string;
+  // the same seed gives the same set
+  seed?: number;
+  // item count range of every collection
+  minItems?: number;
+  maxItems?: number;
+  // levels of nested objects and collections below the root; deeper ones are left unset
+  maxDepth?: number;
+  // defaults to the project folder name
+  assemblyName?: string;
+  // set file the XAML is meant for, defaults to .noesis/data/sets/<set_name>.xaml
+  file?: string;
+};
+
+export type SampleSetResult = {
+  file: string;
+  // data set XAML
+  source: string;
+  // generated data context of the set, undefined if it could not be generated
+  dataSet: GeneratedDataSet | undefined;
+  diagnostics: Diagnostic[];
+};
+
+type SampleContext = {
+  structures: NoesisStructureMap;
+  random: () => number;
+  minItems: number;
+  maxItems: number;
+  maxDepth: number;
+  // image paths in the Noesis project, relative to its root
+  images: string[];
+};
+
+const imageExtensions = [".png", ".jpg", ".jpeg", ".gif", ".bmp", ".tga", ".dds"];
+
+const sampleWords = [
+  "lorem", "ipsum", "dolor", "sit", "amet", "consectetur", "adipiscing", "elit", "sed", "do",
+  "eiusmod", "tempor", "incididunt", "ut", "labore", "et", "dolore", "magna", "aliqua", "enim",
+  "ad", "minim", "veniam", "quis", "nostrud", "exercitation", "ullamco", "laboris", "nisi", "aliquip",
+];
+
+// mulberry32, so a seed reproduces the same set on every platform
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomInt(context: SampleContext, min: number, max: number): number {
+  return min + Math.floor(context.random() * (max - min + 1));
+}
+
+function pick<T>(context: SampleContext, items: T[]): T | undefined {
+  return items.length > 0 ? items[randomInt(context, 0, items.length - 1)] : undefined;
+}
+
+function isSet(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== "";
+}
+
+// image files anywhere in the project outside hidden folders, sorted so the seed picks the same ones
+function projectImages(projectPath: string): string[] {
+  return (fs.readdirSync(projectPath, { recursive: true }) as string[])
+    .map((file) => file.replace(/\\/g, "/"))
+    .filter((file) => imageExtensions.some((extension) => file.toLowerCase().endsWith(extension)) && !file.split("/").some((part) => part.startsWith(".")))
+    .sort();
+}
+
+function sampleText(context: SampleContext, minWords: number, maxWords: number): string {
+  const count = randomInt(context, minWords, Math.max(minWords, maxWords));
+  const words = Array.from({ length: count }, () => pick(context, sampleWords)!);
+  return words.join(" ").replace(/^./, (first) => first.toUpperCase());
+}
+
+// within the property's range, rounded to its decimal count
+function sampleNumber(context: SampleContext, property: NoesisProperty & { type: "Number" }): number {
+  const min = isSet(property.numberMinValue) ? Number(property.numberMinValue) : 0;
+  const max = isSet(property.numberMaxValue) ? Number(property.numberMaxValue) : min + 100;
+  const decimals = isSet(property.numberDecimalCount) ? Number(property.numberDecimalCount) : 0;
+  const value = Number((min + context.random() * (max - min)).toFixed(decimals));
+  return Math.min(Math.max(value, min), max);
+}
+
+function sampleColor(context: SampleContext): string {
+  return `#FF${Array.from({ length: 3 }, () => randomInt(context, 0, 255).toString(16).toUpperCase().padStart(2, "0")).join("")}`;
+}
+
+function sampleEnumItem(context: SampleContext, enumName: string): string | undefined {
+  const structure = context.structures.get(enumName);
+  return structure?.type === "Enum" ? pick(context, Array.from(structure.items.keys())) : undefined;
+}
+
+// items of a collection, or undefined for an unset collection
+function sampleCollection(context: SampleContext, itemType: string, name: string, depth: number): unknown[] | undefined {
+  if (depth > context.maxDepth) {
+    return undefined;
+  }
+  const count = randomInt(context, context.minItems, context.maxItems);
+  const items = Array.from({ length: count }, () => sampleValue(context, itemType, name, depth)).filter(isSet);
+  return items.length > 0 ? items : undefined;
+}
+
+function sampleProperty(context: SampleContext, property: NoesisProperty, propName: string, depth: number): unknown {
+  switch (property.type) {
+    case "String": {
+      const minWords = isSet(property.stringMinWordCount) ? Number(property.stringMinWordCount) : 1;
+      const maxWords = isSet(property.stringMaxWordCount) ? Number(property.stringMaxWordCount) : minWords + 3;
+      return sampleText(context, minWords, maxWords);
+    }
+    case "Number":
+      return sampleNumber(context, property);
+    case "Boolean":
+      return context.random() < 0.5;
+    case "Enum":
+      return sampleEnumItem(context, property.subType);
+    case "Font":
+      return sampleEnumItem(context, "FontFamily");
+    case "Image":
+      return pick(context, context.images);
+    case "Brush":
+      return sampleColor(context);
+    case "Command":
+      return propName.replace(/^./, (first) => first.toLowerCase());
+    case "Object":
+      return depth > context.maxDepth ? undefined : sampleValue(context, property.subType, propName, depth);
+    case "Collection":
+      return sampleCollection(context, property.subType, propName, depth);
+  }
+}
+
+// a value in the form the generated data contexts hold, which the exporter writes back as XAML;
+// name is the property the value belongs to, naming sampled commands
+function sampleValue(context: SampleContext, structureType: string, name: string, depth: number): unknown {
+  const structure = context.structures.get(structureType);
+  if (structure?.type === "Class") {
+    const data: Record<string, unknown> = {};
+    structure.properties.forEach((property, propName) => {
+      data[propName] = sampleProperty(context, property, propName, depth + 1);
+    });
+    return data;
+  } else if (structure?.type === "Enum") {
+    return sampleEnumItem(context, structure.qualifiedName);
+  } else if (structure?.type === "BuiltIn") {
+    switch (structure.name) {
+      case "Single":
+        return randomInt(context, 0, 100);
+      case "Boolean":
+        return context.random() < 0.5;
+      case "String":
+        return sampleText(context, 1, 3);
+      case "Color":
+        return { r: randomInt(context, 0, 255), g: randomInt(context, 0, 255), b: randomInt(context, 0, 255), a: 255 };
+      case "BitmapImage":
+        return pick(context, context.images);
+      case "SolidColorBrush":
+        return sampleColor(context);
+      case "MessageCommand":
+        return name.replace(/^./, (first) => first.toLowerCase());
+    }
+  }
+  // gradient brushes and subtypes added by the project config are left unset
+  return undefined;
+}
+
+// generate a random data set for a structure from its constraints, as XAML and as its data context, without writing either
+export async function sampleSet(options: SampleSetOptions): Promise<SampleSetResult> {
+  const dataPath = projectDataPath(options.projectPath);
+  const diagnostics: Diagnostic[] = [];
+  const config = options.config ?? await readProjectConfig(options.projectPath, diagnostics);
+  const resolved = resolveOptions(options, config);
+  const structures = await readStructures(dataPath, options.isVerbose ?? false, diagnostics, resolved.outputOptions.prefixNamespaces, resolved.types);
+  const rootType = resolveElementStructure(structures, options.structure);
+  const rootStructure = rootType ? structures.get(rootType) : undefined;
+  const setName = options.setName ?? `${rootStructure?.name ?? options.structure}Sample`;
+  const file = options.file ?? `${dataPath}/sets/${setName}.xaml`;
+  if (!rootType || rootStructure?.type !== "Class") {
+    reportDiagnostic(diagnostics, "error", "unknown-structure-type", `${options.structure} does not name exactly one class structure`, { file });
+    return { file, source: "", dataSet: undefined, diagnostics };
+  }
+  const context: SampleContext = {
+    structures,
+    random: seededRandom(options.seed ?? 1),
+    minItems: options.minItems ?? 1,
+    maxItems: Math.max(options.minItems ?? 1, options.maxItems ?? 3),
+    maxDepth: options.maxDepth ?? 3,
+    images: projectImages(options.projectPath),
+  };
+  const data = sampleValue(context, rootType, rootStructure.name, 0);
+  const source = exportDataSet(structures, file, rootType, data, {
+    assemblyName: options.assemblyName ?? basename(resolve(options.projectPath)),
+    indentLevel: resolved.outputOptions.indentLevel,
+  }, diagnostics);
+  // sample strings and images stay plain values, as they are in no string table or image map
+  const dataSet = source ? await outputDataSet(structures, dataPath, `${setName}.xaml`, file, source, resolved.outputOptions, undefined, undefined, diagnostics) : undefined;
+  return { file, source, dataSet, diagnostics };
+}
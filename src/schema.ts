@@ -0,0 +1,198 @@
+import { propertyKey, type NoesisClass, type NoesisEnum, type NoesisProperty, type NoesisStructureMap, type OutputOptions } from "./types";
+
+// directory of the JSON Schema documents, one per class and enum
+export const schemaDirectory = "schema";
+
+const schemaVersion = "https://json-schema.org/draft/2020-12/schema";
+
+// schema shared by every Brush property: a color string or a gradient brush object
+const brushSchemaName = "Brush";
+
+type JsonSchema = Record<string, unknown>;
+
+function schemaFileName(name: string): string {
+  return `${name}.schema.json`;
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: schemaFileName(name) };
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+function isDefined(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== "";
+}
+
+// word counts become a pattern matching between min and max whitespace separated words
+function wordCountPattern(property: NoesisProperty & { type: "String" }): string | undefined {
+  const min = isDefined(property.stringMinWordCount) ? Number(property.stringMinWordCount) : 0;
+  const max = isDefined(property.stringMaxWordCount) ? Number(property.stringMaxWordCount) : undefined;
+  if (min === 0 && max === undefined) {
+    return undefined;
+  }
+  if (max === 0) {
+    return "^\\s*$";
+  }
+  const words = `\\S+(\\s+\\S+){${Math.max(min - 1, 0)},${max !== undefined ? max - 1 : ""}}`;
+  return min > 0 ? `^\\s*${words}\\s*$` : `^\\s*(${words})?\\s*$`;
+}
+
+// schema of a collection item or Object value of the given subtype
+function subTypeSchema(structures: NoesisStructureMap, subType: string): JsonSchema {
+  switch (subType) {
+    case "Single":
+      return { type: "number" };
+    case "String":
+      return { type: "string" };
+    case "Color": {
+      const channel = { type: "integer", minimum: 0, maximum: 255 };
+      return { type: "object", properties: { r: channel, g: channel, b: channel, a: channel }, required: ["r", "g", "b", "a"], additionalProperties: false };
+    }
+    case "Boolean":
+      return { type: "boolean" };
+    case "BitmapImage":
+      return { type: "string", description: "Image path in the Noesis project" };
+    case "SolidColorBrush":
+      return ref(brushSchemaName);
+    case "LinearGradientBrush":
+      return linearGradientSchema();
+    case "RadialGradientBrush":
+      return radialGradientSchema();
+    case "MessageCommand":
+      return { type: ["string", "null"], description: "MessageCommand message, null when unset" };
+  }
+  // other built-ins have no document to refer to
+  const structure = structures.get(subType);
+  return structure && structure.type !== "BuiltIn" ? ref(structure.qualifiedName) : {};
+}
+
+function propertySchema(structures: NoesisStructureMap, property: NoesisProperty, isNullable: boolean): JsonSchema {
+  switch (property.type) {
+    case "String": {
+      const pattern = wordCountPattern(property);
+      return pattern ? { type: "string", pattern } : { type: "string" };
+    }
+    case "Number": {
+      const schema: JsonSchema = { type: "number" };
+      if (isDefined(property.numberMinValue)) {
+        schema.minimum = Number(property.numberMinValue);
+      }
+      if (isDefined(property.numberMaxValue)) {
+        schema.maximum = Number(property.numberMaxValue);
+      }
+      if (isDefined(property.numberDecimalCount)) {
+        const decimals = Number(property.numberDecimalCount);
+        schema.multipleOf = Number((10 ** -decimals).toFixed(decimals));
+      }
+      return schema;
+    }
+    case "Boolean":
+      return { type: "boolean" };
+    case "Command":
+      return subTypeSchema(structures, "MessageCommand");
+    case "Image": {
+      const schema = subTypeSchema(structures, "BitmapImage");
+      return isNullable ? { ...schema, type: ["string", "null"] } : schema;
+    }
+    case "Brush":
+      return ref(brushSchemaName);
+    case "Font":
+      return ref("FontFamily");
+    case "Enum":
+      return subTypeSchema(structures, property.subType);
+    case "Object": {
+      const schema = subTypeSchema(structures, property.subType);
+      return isNullable ? nullable(schema) : schema;
+    }
+    case "Collection":
+      return { type: "array", items: subTypeSchema(structures, property.subType) };
+  }
+}
+
+function classSchema(structures: NoesisStructureMap, structure: NoesisClass, nullableProperties: Set<string>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  structure.properties.forEach((property, propName) => {
+    properties[propName] = propertySchema(structures, property, nullableProperties.has(propertyKey(structure.qualifiedName, propName)));
+  });
+  return {
+    $schema: schemaVersion,
+    $id: schemaFileName(structure.qualifiedName),
+    title: structure.qualifiedName,
+    type: "object",
+    properties,
+    required: Array.from(structure.properties.keys()),
+    additionalProperties: false,
+  };
+}
+
+// values follow the generated enums: Noesis values for numeric enums, item names otherwise
+function enumSchema(structure: NoesisEnum, options: OutputOptions): JsonSchema {
+  const numeric = options.enumStyle === "numeric" && structure.qualifiedName !== "FontFamily";
+  return {
+    $schema: schemaVersion,
+    $id: schemaFileName(structure.qualifiedName),
+    title: structure.qualifiedName,
+    type: numeric ? "integer" : "string",
+    enum: numeric ? Array.from(structure.items.values()) : Array.from(structure.items.keys()),
+  };
+}
+
+const pointSchema = { type: "object", properties: { x: { type: "number" }, y: { type: "number" } }, required: ["x", "y"] };
+
+const gradientStopsSchema = {
+  type: "array",
+  items: { type: "object", properties: { color: { type: "string" }, offset: { type: "number" } }, required: ["color", "offset"] },
+};
+
+function linearGradientSchema(): JsonSchema {
+  return {
+    type: "object",
+    properties: { type: { const: "LinearGradient" }, startPoint: pointSchema, endPoint: pointSchema, gradientStops: gradientStopsSchema, opacity: { type: "number" } },
+    required: ["type", "startPoint", "endPoint", "gradientStops", "opacity"],
+  };
+}
+
+function radialGradientSchema(): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      type: { const: "RadialGradient" },
+      center: pointSchema,
+      gradientOrigin: pointSchema,
+      radiusX: { type: "number" },
+      radiusY: { type: "number" },
+      gradientStops: gradientStopsSchema,
+      opacity: { type: "number" },
+    },
+    required: ["type", "center", "gradientOrigin", "radiusX", "radiusY", "gradientStops", "opacity"],
+  };
+}
+
+function brushSchema(): JsonSchema {
+  return {
+    $schema: schemaVersion,
+    $id: schemaFileName(brushSchemaName),
+    title: brushSchemaName,
+    anyOf: [{ type: "string", description: "Solid color" }, linearGradientSchema(), radialGradientSchema()],
+  };
+}
+
+// generate a JSON Schema document per class and enum, keyed by file path
+export function outputSchemas(structures: NoesisStructureMap, options: OutputOptions, nullableProperties: Set<string>): Map<string, string> {
+  const files = new Map<string, string>();
+  const write = (name: string, schema: JsonSchema) => {
+    files.set(`${schemaDirectory}/${schemaFileName(name)}`, `${JSON.stringify(schema, null, options.indentLevel)}\n`);
+  };
+  write(brushSchemaName, brushSchema());
+  structures.forEach((structure) => {
+    if (structure.type === "Class") {
+      write(structure.qualifiedName, classSchema(structures, structure, nullableProperties));
+    } else if (structure.type === "Enum") {
+      write(structure.qualifiedName, enumSchema(structure, options));
+    }
+  });
+  return files;
+}
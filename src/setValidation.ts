@@ -0,0 +1,230 @@
+import { brushElementNames, gradientStops } from "./brushes";
+import { isColor } from "./colors";
+import { childLocation, nodeLocation, reportDiagnostic, type Diagnostic, type DiagnosticCode, type SourceLocation } from "./diagnostics";
+import { structureElementName, type NoesisProperty, type NoesisStructureMap } from "./types";
+import { parseBooleanValue, parseNumberValue } from "./xml";
+
+type ValidationContext = {
+  structures: NoesisStructureMap;
+  file: string;
+  diagnostics: Diagnostic[];
+};
+
+// data set mismatches are warnings; --strict turns them into a failed build
+function report(context: ValidationContext, node: unknown, path: string, code: DiagnosticCode, message: string) {
+  reportAt(context, nodeLocation(context.file, node), path, code, message);
+}
+
+function reportAt(context: ValidationContext, location: SourceLocation, path: string, code: DiagnosticCode, message: string) {
+  reportDiagnostic(context.diagnostics, "warning", code, message, location, path);
+}
+
+// xml namespace declarations and attached properties (x:Name, d:DataContext, ...) are not structure properties
+function isMarkupAttribute(key: string): boolean {
+  return key === "_" || key.startsWith("xmlns") || key.includes(":");
+}
+
+export function countWords(value: string): number {
+  return value.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+function countDecimals(value: number): number {
+  const parts = `${value}`.split(".");
+  return parts[1] ? parts[1].length : 0;
+}
+
+function validateEnumValue(context: ValidationContext, location: SourceLocation, path: string, enumName: string, value: unknown) {
+  const structure = context.structures.get(enumName);
+  if (structure?.type !== "Enum") {
+    reportAt(context, location, path, "unknown-structure-type", `unknown enum type ${enumName}`);
+  } else if (!structure.items.has(`${value}`)) {
+    reportAt(context, location, path, "unknown-enum-member", `"${value}" is not a member of ${enumName}`);
+  }
+}
+
+// first value of an attribute or child element
+function attributeValue(data: any, name: string): unknown {
+  return Array.isArray(data?.[name]) ? data[name][0] : data?.[name];
+}
+
+function validateColor(context: ValidationContext, location: SourceLocation, path: string, value: unknown) {
+  if (!isColor(`${value}`)) {
+    reportAt(context, location, path, "invalid-value", `"${value}" is not a color: expected #RGB, #ARGB, #RRGGBB, #AARRGGBB or a named color`);
+  }
+}
+
+// collection items of built-in types; malformed items are generated as the default value
+function validateBuiltIn(context: ValidationContext, location: SourceLocation, path: string, name: string, data: any) {
+  switch (name) {
+    case "Single":
+      if (parseNumberValue(data) === undefined) {
+        reportAt(context, location, path, "invalid-value", `"${data}" is not a number`);
+      }
+      break;
+    case "Boolean":
+      if (parseBooleanValue(data) === undefined) {
+        reportAt(context, location, path, "invalid-value", `"${data}" is not a boolean`);
+      }
+      break;
+    case "Color":
+      validateColor(context, location, path, typeof data === "object" ? data?._ : data);
+      break;
+    case "SolidColorBrush":
+      validateColor(context, location, `${path}.Color`, attributeValue(data, "Color"));
+      break;
+    case "LinearGradientBrush":
+    case "RadialGradientBrush":
+      gradientStops(name, data).forEach((stop, index) => {
+        validateColor(context, nodeLocation(context.file, stop), `${path}.GradientStops[${index}]`, attributeValue(stop, "Color"));
+      });
+      break;
+  }
+}
+
+// node is the element holding the property, used for the source location of attribute values
+function validateProperty(context: ValidationContext, node: unknown, path: string, property: NoesisProperty, propValue: any, objectPropValue: any) {
+  switch (property.type) {
+    case "String": {
+      if (propValue) {
+        const words = countWords(`${propValue[0]}`);
+        if (property.stringMinWordCount !== undefined && words < property.stringMinWordCount) {
+          report(context, node, path, "out-of-range", `expected at least ${property.stringMinWordCount} words, got ${words}`);
+        }
+        if (property.stringMaxWordCount !== undefined && words > property.stringMaxWordCount) {
+          report(context, node, path, "out-of-range", `expected at most ${property.stringMaxWordCount} words, got ${words}`);
+        }
+      }
+      break;
+    }
+    case "Number": {
+      if (propValue) {
+        const value = parseNumberValue(propValue[0]);
+        if (value === undefined) {
+          report(context, node, path, "invalid-value", `"${propValue[0]}" is not a number`);
+          break;
+        }
+        if (property.numberMinValue !== undefined && value < property.numberMinValue) {
+          report(context, node, path, "out-of-range", `${value} is less than the minimum ${property.numberMinValue}`);
+        }
+        if (property.numberMaxValue !== undefined && value > property.numberMaxValue) {
+          report(context, node, path, "out-of-range", `${value} is greater than the maximum ${property.numberMaxValue}`);
+        }
+        if (property.numberDecimalCount !== undefined && countDecimals(value) > property.numberDecimalCount) {
+          report(context, node, path, "out-of-range", `${value} has more than ${property.numberDecimalCount} decimal places`);
+        }
+      }
+      break;
+    }
+    case "Boolean": {
+      if (propValue && parseBooleanValue(propValue[0]) === undefined) {
+        report(context, node, path, "invalid-value", `"${propValue[0]}" is not a boolean`);
+      }
+      break;
+    }
+    case "Enum": {
+      if (propValue) {
+        validateEnumValue(context, nodeLocation(context.file, node), path, property.subType, propValue[0]);
+      }
+      break;
+    }
+    case "Font": {
+      if (propValue) {
+        validateEnumValue(context, nodeLocation(context.file, node), path, "FontFamily", propValue[0]);
+      }
+      break;
+    }
+    case "Brush": {
+      if (propValue) {
+        validateColor(context, nodeLocation(context.file, node), path, propValue[0]);
+      } else if (objectPropValue) {
+        const brushType = brushElementNames.find((name) => objectPropValue[0]?.[name]);
+        if (brushType) {
+          validateStructure(context, path, brushType, objectPropValue[0][brushType][0]);
+        } else {
+          report(context, objectPropValue[0], path, "unexpected-element", `expected one of ${brushElementNames.join(", ")}`);
+        }
+      }
+      break;
+    }
+    case "Object": {
+      // unset objects are generated as null
+      if (objectPropValue) {
+        const elementName = structureElementName(context.structures, property.subType);
+        const structureData = objectPropValue[0]?.[elementName];
+        if (structureData) {
+          validateStructure(context, path, property.subType, structureData[0]);
+        } else {
+          report(context, objectPropValue[0], path, "unexpected-element", `expected a ${elementName} element`);
+        }
+      }
+      break;
+    }
+    case "Collection": {
+      if (objectPropValue) {
+        const collectionType = property.subType;
+        const elementName = structureElementName(context.structures, collectionType);
+        const collectionData = objectPropValue[0];
+        if (typeof collectionData !== "object") {
+          break;
+        }
+        Object.keys(collectionData).forEach((key) => {
+          if (key !== elementName && !isMarkupAttribute(key)) {
+            report(context, collectionData, `${path}.${key}`, "unexpected-element", `unexpected element in collection of ${elementName}`);
+          }
+        });
+        const itemsData = collectionData[elementName];
+        if (Array.isArray(itemsData)) {
+          itemsData.forEach((itemData, index) => {
+            // items parsed into plain values, such as <Color>#F00</Color>, are located through the collection
+            const location = typeof itemData === "object" ? undefined : childLocation(context.file, collectionData, elementName, index);
+            validateStructure(context, `${path}[${index}]`, collectionType, itemData, location);
+          });
+        }
+      }
+      break;
+    }
+  }
+}
+
+// location is where the data is, which data parsed into a plain value cannot tell
+function validateStructure(context: ValidationContext, path: string, structureType: string, data: any, location: SourceLocation = nodeLocation(context.file, data)) {
+  const structure = context.structures.get(structureType);
+  const structureName = structureElementName(context.structures, structureType);
+  if (structure?.type === "Class") {
+    if (typeof data !== "object" || data === null) {
+      report(context, data, path, "unexpected-element", `expected a ${structureName} element`);
+      return;
+    }
+    // anything in the data that does not map onto a declared property
+    Object.keys(data).forEach((key) => {
+      if (isMarkupAttribute(key)) {
+        return;
+      }
+      const propName = key.startsWith(`${structureName}.`) ? key.substring(structureName.length + 1) : key;
+      if (!structure.properties.has(propName)) {
+        const value = data[key];
+        const node = Array.isArray(value) && typeof value[0] === "object" ? value[0] : data;
+        report(context, node, `${path}.${propName}`, "unknown-property", `unknown property ${propName} of structure ${structureName}`);
+      }
+    });
+    structure.properties.forEach((property, propName) => {
+      validateProperty(context, data, `${path}.${propName}`, property, data[propName], data[`${structureName}.${propName}`]);
+    });
+  } else if (structure?.type === "Enum") {
+    validateEnumValue(context, location, path, structure.name, data);
+  } else if (structure?.type === "BuiltIn") {
+    validateBuiltIn(context, location, path, structure.name, data);
+  } else {
+    report(context, data, path, "unknown-structure-type", `unknown structure type ${structureName}`);
+  }
+}
+
+// check a parsed data set against the structure definitions
+export function validateDataSet(structures: NoesisStructureMap, file: string, structureType: string, data: any, diagnostics: Diagnostic[]) {
+  const context: ValidationContext = {
+    structures,
+    file,
+    diagnostics,
+  };
+  validateStructure(context, structureElementName(structures, structureType), structureType, data);
+}
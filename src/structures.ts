@@ -1,10 +1,14 @@
 import fs from "fs";
-import xml2js from "xml2js";
-import { stripPrefix, parseNumbers, parseBooleans } from "xml2js/lib/processors";
-import { NoesisBuiltInEnums, NoesisBuiltInSubTypes, noesisSubtypeToTSConverter, type NoesisBuiltIn, type NoesisClass, type NoesisEnum, type NoesisProperty, type NoesisStructureMap, type NoesisType } from "./types";
+import { nodeLocation, reportDiagnostic, type Diagnostic } from "./diagnostics";
+import { getErrorMessage, getErrorPosition, parseNoesisXml } from "./xml";
+import { outputBrushTypes } from "./brushes";
+import { outputColorType } from "./colors";
+import { outputCommandRuntime } from "./commands";
+import { generateFactory } from "./factories";
+import { generateValidationHelpers, generateValidator } from "./validators";
+import { defaultTypeConfig, enumMemberAccess, generatedEnumStyle, propertyTypeName, propertyKey, qualifiedStructureName, resolveElementStructure, structureTypeName, type EnumStyle, type NoesisBuiltIn, type NoesisClass, type NoesisEnum, type NoesisProperty, type NoesisStructureMap, type NoesisType, type OutputOptions, type TypeConfig } from "./types";
 
 function processProperty(property: any): NoesisProperty {
-  const subTypeParts = property.SubType ? property.SubType.split(".") : [];
   switch (property.Type) {
     case "Object":
       switch (property.SubType) {
@@ -24,13 +28,13 @@ function processProperty(property: any): NoesisProperty {
         default:
           return {
             type: "Object",
-            subType: subTypeParts[subTypeParts.length - 1],
+            subType: property.SubType,
           };
       }
     case "Enum":
       return {
         type: "Enum",
-        subType: subTypeParts[subTypeParts.length - 1],
+        subType: property.SubType,
       };
     case "String":
       return {
@@ -52,7 +56,7 @@ function processProperty(property: any): NoesisProperty {
     case "Collection":
       return {
         type: "Collection",
-        subType: subTypeParts[subTypeParts.length - 1],
+        subType: property.SubType,
       };
     case "Command":
       return {
@@ -63,76 +67,150 @@ function processProperty(property: any): NoesisProperty {
   }
 }
 
-function processClassStructure(data: any): NoesisClass {
+type StructureIdentity = {
+  name: string;
+  qualifiedName: string;
+  typeName: string;
+};
+
+function structureIdentity(structureData: any, prefixNamespaces: boolean): StructureIdentity {
+  const name = `${structureData.Name}`;
+  const namespace = structureData.Namespace ? `${structureData.Namespace}` : undefined;
+  return {
+    name,
+    qualifiedName: qualifiedStructureName(namespace, name),
+    typeName: prefixNamespaces && namespace ? `${namespace.replace(/\./g, "_")}_${name}` : name,
+  };
+}
+
+function processClassStructure(data: any, file: string, diagnostics: Diagnostic[], prefixNamespaces: boolean): NoesisClass {
   // process class
   const noesisClass: NoesisClass = {
     type: "Class",
-    name: data.Class.Name,
+    ...structureIdentity(data.Class, prefixNamespaces),
     properties: new Map<string, NoesisProperty>(),
   };
-  if (Array.isArray(data.Class.Property)) {
-    data.Class.Property.forEach((prop: any) => {
-      try {
-        const property = processProperty(prop);
-        noesisClass.properties.set(prop.Name, property);
-      } catch (e) {
-        console.error(`Error processing property ${prop.Name} of class ${data.Class.Name}: ${e}`);
-      }
-    });
-  } else {
+  const properties = Array.isArray(data.Class.Property) ? data.Class.Property : data.Class.Property ? [data.Class.Property] : [];
+  properties.forEach((prop: any) => {
     try {
-      const property = processProperty(data.Class.Property);
-      noesisClass.properties.set(data.Class.Property.Name, property);
+      const property = processProperty(prop);
+      noesisClass.properties.set(prop.Name, property);
     } catch (e) {
-      console.error(`Error processing property ${data.Class.Property.Name} of class ${data.Class.Name}: ${e}`);
+      reportDiagnostic(diagnostics, "error", "unknown-property-type", `Error processing property ${prop.Name} of class ${data.Class.Name}: ${e}`, nodeLocation(file, prop), `${data.Class.Name}.${prop.Name}`);
     }
-  }
+  });
   return noesisClass;
 }
 
-function processEnumStructure(data: any): NoesisEnum {
+// Noesis zero-initializes enums, so new instances start with the item valued 0
+function defaultEnumItem(items: Map<string, number>): string {
+  for (const [item, value] of items) {
+    if (value === 0) {
+      return item;
+    }
+  }
+  return items.keys().next().value ?? "";
+}
+
+function processEnumStructure(data: any, prefixNamespaces: boolean): NoesisEnum {
   // process enum
-  const noesisEnum: NoesisEnum = {
+  const items = new Map<string, number>();
+  const enumItems = Array.isArray(data.Enum.Item) ? data.Enum.Item : data.Enum.Item ? [data.Enum.Item] : [];
+  let nextValue = 0;
+  enumItems.forEach((item: any) => {
+    // items without a value follow the previous one, as in C++
+    const value = item.Value === undefined || Number.isNaN(Number(item.Value)) ? nextValue : Number(item.Value);
+    items.set(item.Name, value);
+    nextValue = value + 1;
+  });
+  return {
     type: "Enum",
-    name: data.Enum.Name,
-    items: new Map<string, number>(),
+    ...structureIdentity(data.Enum, prefixNamespaces),
+    items,
+    defaultItem: defaultEnumItem(items),
   };
-  data.Enum.Item.forEach((item: any) => {
-    noesisEnum.items.set(item.Name, Number(item.Value));
-  });
-  return noesisEnum;
 }
 
-function addBuiltInEnums(structures: NoesisStructureMap) {
-  for (const [name, items] of Object.entries(NoesisBuiltInEnums)) {
-    const noesisEnum: NoesisEnum = {
+function addBuiltInEnums(structures: NoesisStructureMap, types: TypeConfig) {
+  for (const [name, values] of Object.entries(types.builtInEnums)) {
+    const items = new Map<string, number>(Object.entries(values));
+    structures.set(name, {
       type: "Enum",
       name,
-      items: new Map<string, number>(),
-    };
-    items.forEach((item, index) => {
-      noesisEnum.items.set(item, index);
+      qualifiedName: name,
+      typeName: name,
+      items,
+      defaultItem: defaultEnumItem(items),
     });
-    structures.set(name, noesisEnum);
   }
 }
 
-function addBuiltInTypes(structures: NoesisStructureMap) {
-  for (const typeName of NoesisBuiltInSubTypes) {
+// the typeName of a built-in is the TypeScript type it maps to
+function addBuiltInTypes(structures: NoesisStructureMap, types: TypeConfig) {
+  for (const [name, typeName] of Object.entries(types.builtInSubTypes)) {
     const noesisBuiltIn: NoesisBuiltIn = {
       type: "BuiltIn",
-      name: typeName,
+      name,
+      qualifiedName: name,
+      typeName,
     };
     structures.set(noesisBuiltIn.name, noesisBuiltIn);
   }
 }
 
-// read structures
-export async function readStructures(dataPath: string, isVerbose: boolean) {
-  const structures = new Map<string, NoesisClass | NoesisEnum>();
+// SubType names are qualified; built-ins, and structures without a namespace, go by their bare name, and aliases by the
+// subtype they stand for. properties whose SubType names no structure, or an Enum property's no enum, are reported and left out.
+function resolveSubTypes(structures: NoesisStructureMap, types: TypeConfig, files: Map<string, string>, diagnostics: Diagnostic[]) {
+  structures.forEach((structure) => {
+    if (structure.type !== "Class") {
+      return;
+    }
+    structure.properties.forEach((property, propName) => {
+      if (property.type !== "Object" && property.type !== "Enum" && property.type !== "Collection") {
+        return;
+      }
+      const alias = types.subTypeAliases[property.subType];
+      if (!structures.has(property.subType) && alias !== undefined) {
+        property.subType = alias;
+      }
+      if (!structures.has(property.subType)) {
+        const resolved = resolveElementStructure(structures, property.subType.substring(property.subType.lastIndexOf(".") + 1));
+        if (resolved) {
+          property.subType = resolved;
+        }
+      }
+      const subStructure = structures.get(property.subType);
+      if (!subStructure || (property.type === "Enum" && subStructure.type !== "Enum")) {
+        const kind = property.type === "Enum" ? "enum" : "structure";
+        reportDiagnostic(diagnostics, "error", "unknown-structure-type", `Unknown ${kind} type ${property.subType} of property ${propName} of class ${structure.qualifiedName}, the property is left out`, { file: files.get(structure.qualifiedName) ?? structure.qualifiedName }, `${structure.name}.${propName}`);
+        structure.properties.delete(propName);
+      }
+    });
+  });
+}
+
+// the configured default item of each enum; defaults naming no enum item are reported and ignored
+function applyEnumDefaults(structures: NoesisStructureMap, types: TypeConfig, diagnostics: Diagnostic[]) {
+  Object.entries(types.enumDefaults).forEach(([name, item]) => {
+    const structure = structures.get(name);
+    if (structure?.type === "Enum" && structure.items.has(item)) {
+      structure.defaultItem = item;
+    } else {
+      reportDiagnostic(diagnostics, "error", "invalid-value", `Default ${item} of ${name} is not an item of an enum`, { file: types.file ?? name });
+    }
+  });
+}
+
+// read structures, keyed by qualified name; structures whose names collide are reported and left out
+export async function readStructures(dataPath: string, isVerbose: boolean, diagnostics: Diagnostic[], prefixNamespaces: boolean = false, types: TypeConfig = defaultTypeConfig) {
+  const structures: NoesisStructureMap = new Map();
 
-  addBuiltInTypes(structures);
-  addBuiltInEnums(structures);
+  addBuiltInTypes(structures, types);
+  addBuiltInEnums(structures, types);
+  // built-in subtypes are typed by their mapping rather than a generated name, so only enums can clash
+  const typeNames = new Map(Array.from(structures.values()).filter((structure) => structure.type === "Enum").map((structure) => [structure.typeName, structure.qualifiedName]));
+  // file of each structure read, by qualified name
+  const files = new Map<string, string>();
 
   // read structures directory
   const structuresDir = dataPath + "/structures";
@@ -146,99 +224,211 @@ export async function readStructures(dataPath: string, isVerbose: boolean) {
       if (isVerbose) {
         console.log(`- ${file}`);
       }
-      const data = fs.readFileSync(`${structuresDir}/${file}`, "utf8");
-      const result = await xml2js.parseStringPromise(data, {
-        trim: true,
-        mergeAttrs: true,
-        explicitArray: false,
-        tagNameProcessors: [stripPrefix],
-        valueProcessors: [parseNumbers, parseBooleans],
-        attrValueProcessors: [parseNumbers, parseBooleans],
-      });
+      const filePath = `${structuresDir}/${file}`;
+      const data = fs.readFileSync(filePath, "utf8");
+      let result: any;
+      try {
+        result = await parseNoesisXml(data, false, true);
+      } catch (e) {
+        reportDiagnostic(diagnostics, "error", "xml-parse-error", `Error parsing structure: ${getErrorMessage(e)}`, { file: filePath, ...getErrorPosition(e) });
+        continue;
+      }
       let structure: NoesisClass | NoesisEnum;
       if (result.Class) {
-        structure = processClassStructure(result);
+        structure = processClassStructure(result, filePath, diagnostics, prefixNamespaces);
       } else if (result.Enum) {
-        structure = processEnumStructure(result);
+        structure = processEnumStructure(result, prefixNamespaces);
       } else {
-        console.error(`Unknown structure type in file: ${file}`);
+        reportDiagnostic(diagnostics, "error", "unknown-structure-type", `Unknown structure type in file: ${file}`, { file: filePath });
         continue;
       }
-      structures.set(structure.name, structure);
+      if (structures.has(structure.qualifiedName)) {
+        const existing = structures.get(structure.qualifiedName)!;
+        const other = existing.type === "BuiltIn" || types.builtInEnums[existing.name] ? "a built-in" : "another structure";
+        reportDiagnostic(diagnostics, "error", "structure-name-collision", `Structure ${structure.qualifiedName} has the same name as ${other}`, { file: filePath });
+        continue;
+      }
+      const typeNameOwner = typeNames.get(structure.typeName);
+      if (typeNameOwner) {
+        reportDiagnostic(diagnostics, "error", "structure-name-collision", `Structures ${structure.qualifiedName} and ${typeNameOwner} would both generate the TypeScript name ${structure.typeName}; prefix type names with their namespace to keep them apart`, { file: filePath });
+        continue;
+      }
+      typeNames.set(structure.typeName, structure.qualifiedName);
+      structures.set(structure.qualifiedName, structure);
+      files.set(structure.qualifiedName, filePath);
     }
   }
+  resolveSubTypes(structures, types, files, diagnostics);
+  applyEnumDefaults(structures, types, diagnostics);
   if (isVerbose) {
     console.log(`Loaded ${structures.size} structures.`);
   }
   return structures;
 }
 
-export function outputTypes(structures: NoesisStructureMap, scriptsPath: string, isVerbose: boolean, indentLevel: number) {
-  if (isVerbose) {
-    console.log(`Writing TypeScript definitions for ${structures.size} Noesis structures to ${scriptsPath}/NoesisTypes.ts`);
+// names of every structure reachable from the named structure, including itself
+export function structureDependencies(structures: NoesisStructureMap, name: string): Set<string> {
+  const dependencies = new Set<string>();
+  const pending = [name];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (dependencies.has(current)) {
+      continue;
+    }
+    dependencies.add(current);
+    pending.push(...directDependencies(structures, current));
   }
-  const output = fs.createWriteStream(scriptsPath + "/NoesisTypes.ts");
-  output.write(`// Auto-generated TypeScript definitions for Noesis structures\n\n`);
-  output.write(`import { ImageSource } from "horizon/ui";\n\n`);
-  output.write(`// Complex brushes not yet supported\n`);
-  output.write(`export type Brush = never;\n\n`);
-  const indent = " ".repeat(indentLevel);
+  return dependencies;
+}
+
+// serialized structure, for telling whether it changed between reads
+export function structureSignature(structure: unknown): string {
+  return JSON.stringify(structure, (key, value) => value instanceof Map ? Array.from(value.entries()) : value);
+}
+
+// names of the structures the properties of the named structure refer to
+export function directDependencies(structures: NoesisStructureMap, name: string): Set<string> {
+  const dependencies = new Set<string>();
+  const structure = structures.get(name);
+  if (structure?.type === "Class") {
+    structure.properties.forEach((property) => {
+      switch (property.type) {
+        case "Object":
+        case "Enum":
+        case "Collection":
+          dependencies.add(property.subType);
+          break;
+        case "Font":
+          dependencies.add("FontFamily");
+          break;
+      }
+    });
+  }
+  return dependencies;
+}
+
+export const typesFileName = "NoesisTypes.ts";
+
+// properties generated as nullable: unset Object and Image properties from the data sets, plus Object
+// properties whose type leads back to their own class, which can never all be set
+export function nullableProperties(structures: NoesisStructureMap, unsetProperties: Iterable<string>): Set<string> {
+  const nullable = new Set(unsetProperties);
   structures.forEach((structure) => {
-    if (isVerbose) {
-      console.log(`- ${structure.name}`);
+    if (structure.type !== "Class") {
+      return;
     }
-    if (structure.type === "Class") {
-      output.write(`// Definition for structure ${structure.name}\n`);
-      output.write(`export type ${structure.name} = {\n`);
-      structure.properties.forEach((property, propName) => {
-        let type: string;
-        switch (property.type) {
-          case "String":
-            type = "string";
-            break;
-          case "Number":
-            type = "number";
-            break;
-          case "Boolean":
-            type = "boolean";
-            break;
-          case "Command":
-            type = "(parameter?: unknown) => unknown";
-            break;
-          case "Object":
-            type = noesisSubtypeToTSConverter(property.subType);
-            break;
-          case "Image":
-            // images can be either relative paths in the Noesis project or ImageSource objects
-            type = "string | ImageSource";
-            break;
-          case "Brush":
-            type = "string | Brush";
-            break;
-          case "Font":
-            type = "FontFamily"
-            break;
-          case "Enum":
-            type = noesisSubtypeToTSConverter(property.subType);
-            break;
-          case "Collection":
-            type = `Array<${noesisSubtypeToTSConverter(property.subType)}>`
-            break;
+    structure.properties.forEach((property, propName) => {
+      if (property.type !== "Object") {
+        return;
+      }
+      // built-in structures have no factory to start them with
+      if (structures.get(property.subType)?.type !== "Class") {
+        nullable.add(propertyKey(structure.qualifiedName, propName));
+        return;
+      }
+      // follow Object properties only, collections can always be empty
+      const visited = new Set<string>();
+      const pending = [property.subType];
+      while (pending.length > 0) {
+        const current = pending.pop()!;
+        if (current === structure.qualifiedName) {
+          nullable.add(propertyKey(structure.qualifiedName, propName));
+          break;
         }
-        output.write(`${indent}${propName}: ${type};\n`);
-      });
-      output.write(`}\n\n`);
-    } else if (structure.type === "Enum") {
-      output.write(`// Definition for enum ${structure.name}\n`);
-      output.write(`export enum ${structure.name} {\n`);
-      structure.items.forEach((value, itemName) => {
-        output.write(`${indent}"${itemName}" = "${itemName}",\n`);
-      });
-      output.write(`}\n\n`);
-    } else if (structure.type === "BuiltIn") {
-      // skip built ins
+        if (visited.has(current)) {
+          continue;
+        }
+        visited.add(current);
+        const currentStructure = structures.get(current);
+        if (currentStructure?.type === "Class") {
+          currentStructure.properties.forEach((currentProperty) => {
+            if (currentProperty.type === "Object") {
+              pending.push(currentProperty.subType);
+            }
+          });
+        }
+      }
+    });
+  });
+  return nullable;
+}
+
+function outputEnum(structure: NoesisEnum, indent: string, enumStyle: EnumStyle): string {
+  const style = generatedEnumStyle(structure.qualifiedName, enumStyle);
+  const name = structure.typeName;
+  let output = `// Definition for enum ${structure.qualifiedName}\n`;
+  if (style === "union") {
+    output += `export const ${name} = {\n`;
+    structure.items.forEach((value, itemName) => {
+      output += `${indent}"${itemName}": "${itemName}",\n`;
+    });
+    output += `} as const;\n`;
+    output += `export type ${name} = (typeof ${name})[keyof typeof ${name}];\n\n`;
+  } else {
+    output += `export enum ${name} {\n`;
+    structure.items.forEach((value, itemName) => {
+      output += `${indent}"${itemName}" = ${style === "numeric" ? value : `"${itemName}"`},\n`;
+    });
+    output += `}\n\n`;
+  }
+  if (style !== "numeric") {
+    // numeric enums carry their Noesis values, the others get a lookup
+    output += `export const ${name}Values: Record<${name}, number> = {\n`;
+    structure.items.forEach((value, itemName) => {
+      output += `${indent}[${enumMemberAccess(name, itemName)}]: ${value},\n`;
+    });
+    output += `};\n\n`;
+  }
+  return output;
+}
+
+// definitions shared by every structure: color and brush types, commands and validation helpers
+export function outputCommonTypes(indentLevel: number, exportHelpers: boolean): string {
+  return outputColorType(indentLevel) + outputBrushTypes(indentLevel) + outputCommandRuntime(indentLevel) + generateValidationHelpers(indentLevel, exportHelpers);
+}
+
+// generate the definitions of a single structure; built-ins have none
+export function outputStructure(structures: NoesisStructureMap, structure: NoesisClass | NoesisEnum | NoesisBuiltIn, options: OutputOptions, nullable: Set<string>): string {
+  const indentLevel = options.indentLevel;
+  const indent = " ".repeat(indentLevel);
+  let output = "";
+  if (structure.type === "Class") {
+    output += `// Definition for structure ${structure.qualifiedName}\n`;
+    output += `export type ${structure.typeName} = {\n`;
+    structure.properties.forEach((property, propName) => {
+      let type = propertyTypeName(structures, property);
+      if (nullable.has(propertyKey(structure.qualifiedName, propName))) {
+        type += " | null";
+      }
+      output += `${indent}${propName}: ${type};\n`;
+    });
+    output += `}\n\n`;
+    output += generateValidator(structures, structure, indentLevel, nullable, options.enumStyle);
+    output += generateFactory(structures, structure, indentLevel, nullable, options.defaults);
+  } else if (structure.type === "Enum") {
+    output += outputEnum(structure, indent, options.enumStyle);
+  } else if (structure.type === "BuiltIn") {
+    // skip built ins
+  }
+  return output;
+}
+
+// generate the source of the TypeScript definitions file
+export function outputTypes(structures: NoesisStructureMap, isVerbose: boolean, options: OutputOptions, nullable: Set<string>): string {
+  if (isVerbose) {
+    console.log(`Generating TypeScript definitions for ${structures.size} Noesis structures`);
+  }
+  let body = outputCommonTypes(options.indentLevel, false);
+  structures.forEach((structure) => {
+    if (isVerbose) {
+      console.log(`- ${structure.qualifiedName}`);
     }
-  })
-  output.end();
-  output.close();
+    body += outputStructure(structures, structure, options, nullable);
+  });
+  let output = `// Auto-generated TypeScript definitions for Noesis structures\n\n`;
+  // only image properties name ImageSource
+  if (/\bImageSource\b/.test(body)) {
+    output += `import { ImageSource } from "horizon/ui";\n\n`;
+  }
+  return output + body;
 }
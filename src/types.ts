@@ -32,77 +32,237 @@ export type NoesisProperty =
       subType: string;
     };
 
+// name is the element name in data sets, qualifiedName the NoesisStructureMap key and typeName the generated TypeScript name
 export type NoesisClass = {
   type: "Class";
   name: string;
+  qualifiedName: string;
+  typeName: string;
   properties: Map<string, NoesisProperty>;
 };
 
 export type NoesisEnum = {
   type: "Enum";
   name: string;
+  qualifiedName: string;
+  typeName: string;
   items: Map<string, number>;
+  // item a new instance starts with in Noesis
+  defaultItem: string;
 };
 
 export type NoesisBuiltIn = {
   type: "BuiltIn";
   name: string;
+  qualifiedName: string;
+  typeName: string;
 }
 
-export const NoesisBuiltInEnums: Record<string, string[]> = {
-  Visibility: ["Collapsed", "Visible", "Hidden"],
-  Orientation: ["Horizontal", "Vertical"],
-  HorizontalAlignment: ["Left", "Center", "Right", "Stretch"],
-  VerticalAlignment: ["Top", "Center", "Bottom", "Stretch"],
-  TextAlignment: ["Left", "Center", "Right", "Justify"],
-  TextWrapping: ["NoWrap", "Wrap", "WrapWithOverflow"],
-  TextTrimming: ["None", "CharacterEllipsis", "WordEllipsis"],
-  FlowDirection: ["LeftToRight", "RightToLeft"],
-  FontFamily: ["Anton", "Bangers", "Oswald", "Roboto", "Roboto-Mono"],
+// built-in enum items with their Noesis values
+export const NoesisBuiltInEnums: Record<string, Record<string, number>> = {
+  Visibility: { Visible: 0, Hidden: 1, Collapsed: 2 },
+  Orientation: { Horizontal: 0, Vertical: 1 },
+  HorizontalAlignment: { Left: 0, Center: 1, Right: 2, Stretch: 3 },
+  VerticalAlignment: { Top: 0, Center: 1, Bottom: 2, Stretch: 3 },
+  TextAlignment: { Left: 0, Right: 1, Center: 2, Justify: 3 },
+  TextWrapping: { WrapWithOverflow: 0, NoWrap: 1, Wrap: 2 },
+  TextTrimming: { None: 0, CharacterEllipsis: 1, WordEllipsis: 2 },
+  FlowDirection: { LeftToRight: 0, RightToLeft: 1 },
+  // font names rather than a Noesis enum, so always emitted as strings
+  FontFamily: { Anton: 0, Bangers: 1, Oswald: 2, Roboto: 3, "Roboto-Mono": 4 },
 };
 
-export const NoesisBuiltInSubTypes = [
-  "Single",
-  "Boolean",
-  "String",
-  "Color",
-  "BitmapImage",
-  "SolidColorBrush",
-  "MessageCommand",
-];
-
-export function noesisSubtypeToTSConverter(type: string): string {
-  switch (type) {
-    case "Single":
-      return "number";
-    case "String":
-      return "string";
-    case "Bool":
-      return "boolean";
-    case "ImageSource":
-      return "string | ImageSource";
-    case "Brush":
-      return "string | Brush";
-    case "BaseCommand":
-      return "(parameter?: unknown) => unknown";
-    default:
-      return type;
+// built-in subtypes with the TypeScript type of their values
+export const NoesisBuiltInSubTypes: Record<string, string> = {
+  Single: "number",
+  Boolean: "boolean",
+  String: "string",
+  // parsed into the generated RGBA type
+  Color: "RGBA",
+  // images can be either relative paths in the Noesis project or ImageSource objects
+  BitmapImage: "string | ImageSource",
+  SolidColorBrush: "string | Brush",
+  LinearGradientBrush: "LinearGradientBrush",
+  RadialGradientBrush: "RadialGradientBrush",
+  MessageCommand: "(parameter?: unknown) => unknown",
+};
+
+// other names structures give built-in subtypes, with the subtype they stand for
+export const NoesisSubTypeAliases: Record<string, string> = {
+  Bool: "Boolean",
+  ImageSource: "BitmapImage",
+  Brush: "SolidColorBrush",
+  BaseCommand: "MessageCommand",
+};
+
+// font of Font properties a set leaves unset
+export const defaultFontFamily = "Bangers";
+
+// built-in structures and enum defaults, which the project config can extend or override
+export type TypeConfig = {
+  // built-in enum items with their Noesis values
+  builtInEnums: Record<string, Record<string, number>>;
+  // built-in subtypes with their TypeScript types
+  builtInSubTypes: Record<string, string>;
+  // other names of built-in subtypes, which readStructures replaces with the subtype they stand for
+  subTypeAliases: Record<string, string>;
+  // item of an enum, by qualified name, that sets leaving it unset and factories start with
+  enumDefaults: Record<string, string>;
+  // file the overrides come from, for diagnostics
+  file?: string;
+};
+
+export const defaultTypeConfig: TypeConfig = {
+  builtInEnums: NoesisBuiltInEnums,
+  builtInSubTypes: NoesisBuiltInSubTypes,
+  subTypeAliases: NoesisSubTypeAliases,
+  enumDefaults: { FontFamily: defaultFontFamily },
+};
+
+// structures without a namespace are keyed by their bare name, as are the built-ins
+export function qualifiedStructureName(namespace: string | undefined, name: string): string {
+  return namespace ? `${namespace}.${name}` : name;
+}
+
+// CLR namespace of a structure, undefined for structures without one
+export function structureNamespace(structure: { name: string; qualifiedName: string }): string | undefined {
+  return structure.qualifiedName.length > structure.name.length ? structure.qualifiedName.slice(0, -structure.name.length - 1) : undefined;
+}
+
+// key of the structure a data set element names; undefined when no structure or several match.
+// namespaces declared by the set (xmlns:x="clr-namespace:Shop") pick between structures sharing a name.
+export function resolveElementStructure(structures: NoesisStructureMap, elementName: string, namespaces: string[] = []): string | undefined {
+  if (structures.has(elementName)) {
+    return elementName;
+  }
+  const matches = Array.from(structures.values()).filter((structure) => structure.name === elementName);
+  if (matches.length === 1) {
+    return matches[0]!.qualifiedName;
   }
+  const declared = matches.filter((structure) => namespaces.some((namespace) => structure.qualifiedName === `${namespace}.${elementName}`));
+  return declared.length === 1 ? declared[0]!.qualifiedName : undefined;
 }
 
-export function noesisSubtypeToNoesisTypeConverter(type: string): string {
-  switch (type) {
-    case "Bool":
-      return "Boolean";
-    case "ImageSource":
-      return "BitmapImage";
+// element name of a structure key in data sets, e.g. ShopItem for Shop.ShopItem
+export function structureElementName(structures: NoesisStructureMap, qualifiedName: string): string {
+  return structures.get(qualifiedName)?.name ?? qualifiedName.substring(qualifiedName.lastIndexOf(".") + 1);
+}
+
+// TypeScript type of a property subtype; built-ins are typed by their mapping
+export function structureTypeName(structures: NoesisStructureMap, subType: string): string {
+  const structure = structures.get(subType);
+  return structure ? structure.typeName : subType;
+}
+
+// TypeScript type of a property, without the null of nullable properties
+export function propertyTypeName(structures: NoesisStructureMap, property: NoesisProperty): string {
+  switch (property.type) {
+    case "String":
+      return structureTypeName(structures, "String");
+    case "Number":
+      return structureTypeName(structures, "Single");
+    case "Boolean":
+      return structureTypeName(structures, "Boolean");
+    case "Command":
+      return structureTypeName(structures, "MessageCommand");
+    case "Image":
+      return structureTypeName(structures, "BitmapImage");
     case "Brush":
-      return "SolidColorBrush";
-    case "BaseCommand":
-      return "MessageCommand";
-    default:
-      return type;
+      return structureTypeName(structures, "SolidColorBrush");
+    case "Font":
+      return "FontFamily";
+    case "Object":
+    case "Enum":
+      return structureTypeName(structures, property.subType);
+    case "Collection":
+      return `Array<${structureTypeName(structures, property.subType)}>`;
   }
 }
 
+// item a Font property a set leaves unset starts with
+export function fontFamilyDefault(structures: NoesisStructureMap): string {
+  const fontFamily = structures.get("FontFamily");
+  return fontFamily?.type === "Enum" ? fontFamily.defaultItem : defaultFontFamily;
+}
+
+// key of a class property in a set of property names
+export function propertyKey(className: string, propName: string): string {
+  return `${className}.${propName}`;
+}
+
+// expression for an enum item, quoting names that are not identifiers
+export function enumMemberAccess(enumName: string, item: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(item) ? `${enumName}.${item}` : `${enumName}[${JSON.stringify(item)}]`;
+}
+
+// string: enum with the item names as values
+// numeric: enum with the Noesis item values
+// union: const object with the item names, plus a union type of them
+export type EnumStyle = "string" | "numeric" | "union";
+
+export const enumStyles: EnumStyle[] = ["string", "numeric", "union"];
+
+// style an enum is generated in; fonts are looked up by name, so their values stay strings
+export function generatedEnumStyle(qualifiedName: string, enumStyle: EnumStyle): EnumStyle {
+  return qualifiedName === "FontFamily" && enumStyle === "numeric" ? "string" : enumStyle;
+}
+
+// single: every structure in NoesisTypes.ts
+// structure: one module per structure under types/, plus a types/index.ts barrel
+// namespace: one module per structure namespace under types/, plus the barrel
+export type OutputLayout = "single" | "structure" | "namespace";
+
+export const outputLayouts: OutputLayout[] = ["single", "structure", "namespace"];
+
+// ts: every data set is a TypeScript data context factory
+// json: every data set is a compact JSON file, read by a generated typed loader
+export type DataFormat = "ts" | "json";
+
+export const dataFormats: DataFormat[] = ["ts", "json"];
+
+// options controlling the shape of the generated TypeScript
+export type OutputOptions = {
+  indentLevel: number;
+  enumStyle: EnumStyle;
+  // prefix structure type names with their namespace, e.g. Shop_ShopItem, so equal short names do not clash
+  prefixNamespaces: boolean;
+  layout: OutputLayout;
+  dataFormat: DataFormat;
+  // also generate reactive binding wrappers for every class
+  bindings: boolean;
+  // also generate typed binding path builders for every class
+  paths: boolean;
+  // also generate a JSON Schema document for every class and enum
+  schema: boolean;
+  // values of String, Number and Boolean properties a set leaves unset
+  defaults: ValueDefaults;
+  naming: OutputNaming;
+  // per-set options, by set name
+  sets: Record<string, SetOptions>;
+};
+
+export type ValueDefaults = {
+  String: string;
+  Number: number;
+  Boolean: boolean;
+};
+
+export const defaultValues: ValueDefaults = { String: "", Number: 0, Boolean: false };
+
+// names of the generated shared files and of the data context factory export
+export type OutputNaming = {
+  typesFile: string;
+  commandsFile: string;
+  imagesFile: string;
+  dataSetIndexFile: string;
+  dataContextExport: string;
+};
+
+export type SetOptions = {
+  // data context factory export, overriding the naming for this set
+  exportName?: string;
+  // leave the set out of the generated output
+  exclude?: boolean;
+};
+
 export type NoesisStructureMap = Map<string, NoesisClass | NoesisEnum | NoesisBuiltIn>;
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { generatedEnumStyle, propertyKey, structureTypeName, type EnumStyle, type NoesisClass, type NoesisProperty, type NoesisStructureMap } from "./types";
+
+// helpers shared by every generated validator; exported when the validators live in other modules
+export function generateValidationHelpers(indentLevel: number, exportHelpers: boolean): string {
+  const indent = " ".repeat(indentLevel);
+  const exported = exportHelpers ? "export " : "";
+  return `// Issue reported by a generated validator\n` +
+    `export type ValidationIssue = {\n` +
+    `${indent}path: string;\n` +
+    `${indent}message: string;\n` +
+    `}\n\n` +
+    `${exported}function countWords(value: string): number {\n` +
+    `${indent}return value.split(/\\s+/).filter((word) => word.length > 0).length;\n` +
+    `}\n\n` +
+    `${exported}function countDecimals(value: number): number {\n` +
+    `${indent}const parts = \`\${value}\`.split(".");\n` +
+    `${indent}return parts[1] ? parts[1].length : 0;\n` +
+    `}\n\n`;
+}
+
+export function validatorName(typeName: string): string {
+  return `validate${typeName}`;
+}
+
+function isDefined(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== "";
+}
+
+function generateStringChecks(indent: string, step: string, property: NoesisProperty & { type: "String" }, valueExpr: string, pathExpr: string): string {
+  const checks: string[] = [];
+  if (isDefined(property.stringMinWordCount)) {
+    checks.push(`${indent}if (countWords(${valueExpr}) < ${property.stringMinWordCount}) {\n` +
+      `${indent}${step}issues.push({ path: ${pathExpr}, message: \`expected at least ${property.stringMinWordCount} words, got \${countWords(${valueExpr})}\` });\n` +
+      `${indent}}\n`);
+  }
+  if (isDefined(property.stringMaxWordCount)) {
+    checks.push(`${indent}if (countWords(${valueExpr}) > ${property.stringMaxWordCount}) {\n` +
+      `${indent}${step}issues.push({ path: ${pathExpr}, message: \`expected at most ${property.stringMaxWordCount} words, got \${countWords(${valueExpr})}\` });\n` +
+      `${indent}}\n`);
+  }
+  return checks.join("");
+}
+
+function generateNumberChecks(indent: string, step: string, property: NoesisProperty & { type: "Number" }, valueExpr: string, pathExpr: string): string {
+  const checks: string[] = [];
+  if (isDefined(property.numberMinValue)) {
+    checks.push(`${indent}if (${valueExpr} < ${property.numberMinValue}) {\n` +
+      `${indent}${step}issues.push({ path: ${pathExpr}, message: \`\${${valueExpr}} is less than the minimum ${property.numberMinValue}\` });\n` +
+      `${indent}}\n`);
+  }
+  if (isDefined(property.numberMaxValue)) {
+    checks.push(`${indent}if (${valueExpr} > ${property.numberMaxValue}) {\n` +
+      `${indent}${step}issues.push({ path: ${pathExpr}, message: \`\${${valueExpr}} is greater than the maximum ${property.numberMaxValue}\` });\n` +
+      `${indent}}\n`);
+  }
+  if (isDefined(property.numberDecimalCount)) {
+    checks.push(`${indent}if (countDecimals(${valueExpr}) > ${property.numberDecimalCount}) {\n` +
+      `${indent}${step}issues.push({ path: ${pathExpr}, message: \`\${${valueExpr}} has more than ${property.numberDecimalCount} decimal places\` });\n` +
+      `${indent}}\n`);
+  }
+  return checks.join("");
+}
+
+// numeric enums also map their values back to the item names, which are no members
+function generateEnumCheck(structures: NoesisStructureMap, enumStyle: EnumStyle, indent: string, step: string, enumType: string, valueExpr: string, pathExpr: string): string {
+  const enumName = structureTypeName(structures, enumType);
+  const members = generatedEnumStyle(structures.get(enumType)?.qualifiedName ?? enumType, enumStyle) === "numeric"
+    ? `Object.values(${enumName}).filter((item) => typeof item === "number")`
+    : `Object.values(${enumName})`;
+  return `${indent}if (!${members}.includes(${valueExpr})) {\n` +
+    `${indent}${step}issues.push({ path: ${pathExpr}, message: \`\${${valueExpr}} is not a member of ${enumName}\` });\n` +
+    `${indent}}\n`;
+}
+
+// checks for a single element of a structure type (object property value or collection item)
+function generateStructureChecks(structures: NoesisStructureMap, enumStyle: EnumStyle, indent: string, step: string, structureName: string, valueExpr: string, pathExpr: string): string {
+  const structure = structures.get(structureName);
+  if (structure?.type === "Class") {
+    return `${indent}issues.push(...${validatorName(structure.typeName)}(${valueExpr}, ${pathExpr}));\n`;
+  } else if (structure?.type === "Enum") {
+    return generateEnumCheck(structures, enumStyle, indent, step, structure.qualifiedName, valueExpr, pathExpr);
+  }
+  // built-ins have no constraints
+  return "";
+}
+
+function generatePropertyChecks(structures: NoesisStructureMap, enumStyle: EnumStyle, indent: string, step: string, structure: NoesisClass, property: NoesisProperty, propName: string, nullable: Set<string>): string {
+  const subIndent = indent + step;
+  const valueExpr = `value.${propName}`;
+  const pathExpr = `\`\${path}.${propName}\``;
+  switch (property.type) {
+    case "String":
+      return generateStringChecks(indent, step, property, valueExpr, pathExpr);
+    case "Number":
+      return generateNumberChecks(indent, step, property, valueExpr, pathExpr);
+    case "Enum":
+      return generateEnumCheck(structures, enumStyle, indent, step, property.subType, valueExpr, pathExpr);
+    case "Font":
+      return generateEnumCheck(structures, enumStyle, indent, step, "FontFamily", valueExpr, pathExpr);
+    case "Object": {
+      const checks = generateStructureChecks(structures, enumStyle, subIndent, step, property.subType, valueExpr, pathExpr);
+      if (!checks) {
+        return "";
+      }
+      if (nullable.has(propertyKey(structure.qualifiedName, propName))) {
+        return `${indent}if (${valueExpr} !== undefined && ${valueExpr} !== null) {\n` +
+          checks +
+          `${indent}}\n`;
+      }
+      return `${indent}if (${valueExpr} === undefined || ${valueExpr} === null) {\n` +
+        `${subIndent}issues.push({ path: ${pathExpr}, message: "missing required ${property.subType}" });\n` +
+        `${indent}} else {\n` +
+        checks +
+        `${indent}}\n`;
+    }
+    case "Collection": {
+      const itemChecks = generateStructureChecks(structures, enumStyle, subIndent, step, property.subType, "item", `\`\${path}.${propName}[\${index}]\``);
+      if (!itemChecks) {
+        return "";
+      }
+      return `${indent}${valueExpr}.forEach((item, index) => {\n` +
+        itemChecks +
+        `${indent}});\n`;
+    }
+    default:
+      return "";
+  }
+}
+
+// generate a validateX function for a class structure
+export function generateValidator(structures: NoesisStructureMap, structure: NoesisClass, indentLevel: number, nullable: Set<string>, enumStyle: EnumStyle): string {
+  const indent = " ".repeat(indentLevel);
+  let result = `// Validator for structure ${structure.qualifiedName}\n`;
+  result += `export function ${validatorName(structure.typeName)}(value: ${structure.typeName}, path: string = "${structure.name}"): ValidationIssue[] {\n`;
+  result += `${indent}const issues: ValidationIssue[] = [];\n`;
+  structure.properties.forEach((property, propName) => {
+    result += generatePropertyChecks(structures, enumStyle, indent, indent, structure, property, propName, nullable);
+  });
+  result += `${indent}return issues;\n`;
+  result += `}\n\n`;
+  return result;
+}
@@ -0,0 +1,201 @@
+import fs from "node:fs";
+import { outputCommands } from "./commands";
+import { outputDataSetIndex } from "./dataSetIndex";
+import { outputDataSets, type GeneratedDataSet } from "./datasets";
+import { printDiagnostics, writeDiagnosticsReport, type Diagnostic, type ReportFormat } from "./diagnostics";
+import { collectImages, outputImageManifest, readImageAssetMap, type ImageAssetMap } from "./images";
+import { checkTranslations, outputLocalizationFiles, readLocalization, type Localization, type LocalizationOptions } from "./localization";
+import { outputStructureFiles, readNullableProperties, writeGeneratedFiles } from "./generate";
+import { readStructures, structureDependencies, structureSignature } from "./structures";
+import type { NoesisStructureMap, OutputOptions, TypeConfig } from "./types";
+
+export type WatchOptions = {
+  dataPath: string;
+  outputDirectory: string;
+  isVerbose: boolean;
+  outputOptions: OutputOptions;
+  types: TypeConfig;
+  typesOnly: boolean;
+  // only this set is regenerated when given
+  setName?: string;
+  // image asset map file, read again on every regeneration
+  imageMap?: string;
+  // translations are read again on every regeneration
+  localization?: LocalizationOptions;
+  // diagnostics report, rewritten with the diagnostics of every regeneration
+  report?: { format: ReportFormat; file: string };
+  // milliseconds to wait for a burst of saves to settle before regenerating
+  debounceDelay: number;
+};
+
+export type ProjectWatcher = {
+  // stop watching, resolving once a regeneration under way has finished
+  close(): Promise<void>;
+};
+
+type WatchState = {
+  structures: NoesisStructureMap;
+  // last generated data set per set file
+  dataSets: Map<string, GeneratedDataSet>;
+  // properties generated as nullable, as Class.Property
+  nullable: Set<string>;
+};
+
+// names of structures that were added, removed or changed between two reads
+function changedStructures(previous: NoesisStructureMap, current: NoesisStructureMap): Set<string> {
+  const changed = new Set<string>();
+  previous.forEach((structure, name) => {
+    const currentStructure = current.get(name);
+    if (!currentStructure || structureSignature(structure) !== structureSignature(currentStructure)) {
+      changed.add(name);
+    }
+  });
+  current.forEach((structure, name) => {
+    if (!previous.has(name)) {
+      changed.add(name);
+    }
+  });
+  return changed;
+}
+
+async function regenerateSets(options: WatchOptions, state: WatchState, setFiles: Iterable<string>, imageAssets: ImageAssetMap | undefined, localization: Localization | undefined, diagnostics: Diagnostic[]) {
+  for (const file of setFiles) {
+    if (!fs.existsSync(`${options.dataPath}/sets/${file}`)) {
+      state.dataSets.delete(file);
+      continue;
+    }
+    console.log(`Regenerating ${file}`);
+    const dataSets = await outputDataSets(state.structures, options.dataPath, file.replace(".xaml", ""), options.isVerbose, options.outputOptions, imageAssets, localization, diagnostics);
+    for (const dataSet of dataSets) {
+      state.dataSets.set(dataSet.setFile, dataSet);
+      await writeGeneratedFiles(new Map([[dataSet.outputFile, dataSet.source], ...dataSet.localizedFiles, ...dataSet.dataFiles]), options.outputDirectory, options.isVerbose);
+    }
+  }
+}
+
+// returns the set files that depend on a changed structure
+async function regenerateStructures(options: WatchOptions, state: WatchState, diagnostics: Diagnostic[]): Promise<string[]> {
+  console.log(`Regenerating ${options.outputOptions.naming.typesFile}`);
+  const structures = await readStructures(options.dataPath, options.isVerbose, diagnostics, options.outputOptions.prefixNamespaces, options.types);
+  const changed = changedStructures(state.structures, structures);
+  const previousStructures = state.structures;
+  state.structures = structures;
+  state.nullable = await readNullableProperties(structures, options.dataPath);
+  await writeGeneratedFiles(outputStructureFiles(structures, state.nullable, options.isVerbose, options.outputOptions), options.outputDirectory, options.isVerbose);
+  if (changed.size === 0) {
+    return [];
+  }
+  // a set is affected if its root reached a changed structure before or after the change
+  const affectedSets: string[] = [];
+  state.dataSets.forEach((dataSet, file) => {
+    const root = dataSet.rootStructure;
+    const dependencies = new Set([...structureDependencies(previousStructures, root), ...structureDependencies(structures, root)]);
+    if ([...changed].some((name) => dependencies.has(name))) {
+      affectedSets.push(file);
+    }
+  });
+  return affectedSets;
+}
+
+// a set that starts or stops leaving a property unset changes the types
+async function refreshNullableProperties(options: WatchOptions, state: WatchState) {
+  const nullable = await readNullableProperties(state.structures, options.dataPath);
+  if ([...nullable].sort().join() === [...state.nullable].sort().join()) {
+    return;
+  }
+  console.log(`Regenerating ${options.outputOptions.naming.typesFile}`);
+  state.nullable = nullable;
+  await writeGeneratedFiles(outputStructureFiles(state.structures, nullable, options.isVerbose, options.outputOptions), options.outputDirectory, options.isVerbose);
+}
+
+// regenerate outputs whenever structures or sets under .noesis/data change, until the watcher is closed
+export function watchProject(options: WatchOptions, structures: NoesisStructureMap, dataSets: GeneratedDataSet[], nullable: Set<string>): ProjectWatcher {
+  const state: WatchState = {
+    structures,
+    dataSets: new Map(dataSets.map((dataSet) => [dataSet.setFile, dataSet])),
+    nullable,
+  };
+  let structuresChanged = false;
+  const changedSets = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    timer = undefined;
+    const regenerateAllStructures = structuresChanged;
+    const sets = new Set(changedSets);
+    structuresChanged = false;
+    changedSets.clear();
+    // chain runs so a slow regeneration never overlaps the next one
+    running = running.then(async () => {
+      const diagnostics: Diagnostic[] = [];
+      try {
+        if (regenerateAllStructures) {
+          const affectedSets = await regenerateStructures(options, state, diagnostics);
+          affectedSets.forEach((file) => sets.add(file));
+        } else if (sets.size > 0) {
+          await refreshNullableProperties(options, state);
+        }
+        if (!options.typesOnly && sets.size > 0) {
+          const imageAssets = options.imageMap ? readImageAssetMap(options.imageMap, diagnostics) : undefined;
+          const localization = options.localization ? await readLocalization(options.localization, diagnostics) : undefined;
+          await regenerateSets(options, state, sets, imageAssets, localization, diagnostics);
+          if (!options.setName) {
+            const dataSets = Array.from(state.dataSets.values());
+            const messages = dataSets.flatMap((dataSet) => dataSet.commandMessages);
+            const files = new Map([
+              [options.outputOptions.naming.commandsFile, outputCommands(messages, options.outputOptions.indentLevel)],
+              [options.outputOptions.naming.imagesFile, outputImageManifest(collectImages(dataSets), imageAssets ?? new Map(), options.outputOptions.indentLevel)],
+              [options.outputOptions.naming.dataSetIndexFile, outputDataSetIndex(state.structures, dataSets, options.outputOptions)],
+            ]);
+            if (localization) {
+              const strings = dataSets.flatMap((dataSet) => dataSet.strings);
+              outputLocalizationFiles(strings, localization, options.outputOptions.indentLevel).forEach((source, file) => files.set(file, source));
+              checkTranslations(strings, localization.translations, diagnostics);
+            }
+            await writeGeneratedFiles(files, options.outputDirectory, options.isVerbose);
+          }
+        }
+      } catch (e) {
+        console.error(`Regeneration failed: ${e}`);
+      }
+      printDiagnostics(diagnostics);
+      if (options.report) {
+        writeDiagnosticsReport(diagnostics, options.report.format, options.report.file);
+      }
+    });
+  };
+
+  const schedule = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(flush, options.debounceDelay);
+  };
+
+  const watchers = [
+    fs.watch(`${options.dataPath}/structures`, (event, file) => {
+      if (file?.endsWith(".xml")) {
+        structuresChanged = true;
+        schedule();
+      }
+    }),
+    fs.watch(`${options.dataPath}/sets`, (event, file) => {
+      if (file?.endsWith(".xaml") && (!options.setName || file === `${options.setName}.xaml`)) {
+        changedSets.add(file);
+        schedule();
+      }
+    }),
+  ];
+  console.log(`Watching ${options.dataPath} for changes`);
+  return {
+    close: async () => {
+      watchers.forEach((watcher) => watcher.close());
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      await running;
+    },
+  };
+}
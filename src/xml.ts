@@ -0,0 +1,148 @@
+import xml2js from "xml2js";
+import { stripPrefix, parseNumbers, parseBooleans } from "xml2js/lib/processors";
+
+export type SourcePosition = {
+  line: number;
+  column: number;
+};
+
+// the sax parser xml2js reads with, which knows where the tag being opened starts
+declare module "xml2js" {
+  interface Parser {
+    readonly saxParser: { readonly startTagPosition: number };
+  }
+}
+
+const sourcePositionKey = Symbol("sourcePosition");
+// positions of the child elements parsed into plain values, which cannot hold their own, by name and sibling index
+const childPositionsKey = Symbol("childPositions");
+
+// offsets of the first character of every line, for offset -> line/column lookups
+function lineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function offsetToPosition(starts: number[], offset: number): SourcePosition {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (starts[mid]! <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - starts[low]! + 1 };
+}
+
+// parse a Noesis structure or data set file, tagging every element object with its source position.
+// values stay text unless typedValues is set; data sets convert them by the type of their property, so String values keep their text
+export async function parseNoesisXml(source: string, explicitArray: boolean, typedValues: boolean = false): Promise<any> {
+  const starts = lineStarts(source);
+  const openPositions: SourcePosition[] = [];
+  const openChildPositions: Map<string, SourcePosition[]>[] = [];
+  const parser = new xml2js.Parser({
+    trim: true,
+    mergeAttrs: true,
+    explicitArray,
+    tagNameProcessors: [
+      (name: string) => {
+        // called on every open tag; startTagPosition is just past the '<'
+        openPositions.push(offsetToPosition(starts, parser.saxParser.startTagPosition - 1));
+        openChildPositions.push(new Map());
+        return name;
+      },
+      stripPrefix,
+    ],
+    valueProcessors: typedValues ? [parseNumbers, parseBooleans] : [],
+    attrValueProcessors: typedValues ? [parseNumbers, parseBooleans] : [],
+    // called on every close tag, so the position stack unwinds in step with the element stack
+    // currentValue holds the siblings of the same name parsed so far
+    validator: (xpath: string, currentValue: unknown, newValue: unknown) => {
+      const position = openPositions.pop();
+      const childPositions = openChildPositions.pop();
+      if (position && typeof newValue === "object" && newValue !== null) {
+        Object.defineProperty(newValue, sourcePositionKey, { value: position, enumerable: false });
+        Object.defineProperty(newValue, childPositionsKey, { value: childPositions, enumerable: false });
+      } else if (position) {
+        const siblingPositions = openChildPositions[openChildPositions.length - 1];
+        if (siblingPositions) {
+          const name = xpath.substring(xpath.lastIndexOf("/") + 1);
+          const positions = siblingPositions.get(name) ?? [];
+          positions[Array.isArray(currentValue) ? currentValue.length : currentValue === undefined ? 0 : 1] = position;
+          siblingPositions.set(name, positions);
+        }
+      }
+      return newValue;
+    },
+  });
+  return parser.parseStringPromise(source);
+}
+
+export function getSourcePosition(node: unknown): SourcePosition | undefined {
+  if (typeof node === "object" && node !== null) {
+    return (node as any)[sourcePositionKey];
+  }
+  return undefined;
+}
+
+// position of the index-th child element of the given name, for children parsed into plain values such as <Color>#F00</Color>
+export function getChildPosition(node: unknown, name: string, index: number): SourcePosition | undefined {
+  if (typeof node === "object" && node !== null) {
+    return (node as any)[childPositionsKey]?.get(name)?.[index];
+  }
+  return undefined;
+}
+
+// a Number value of a data set, undefined when its text is not a number
+export function parseNumberValue(value: unknown): number | undefined {
+  const text = typeof value === "string" ? value.trim() : "";
+  const number = Number(text);
+  return text === "" || !Number.isFinite(number) ? undefined : number;
+}
+
+// a Boolean value of a data set, undefined when its text is not True or False in any case
+export function parseBooleanValue(value: unknown): boolean | undefined {
+  const text = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return text === "true" ? true : text === "false" ? false : undefined;
+}
+
+// sax reports parse errors as "...\nLine: 3\nColumn: 12\nChar: x" with a zero based line
+export function getErrorPosition(error: unknown): SourcePosition | undefined {
+  const match = `${error}`.match(/Line: (\d+)\s+Column: (\d+)/);
+  if (match) {
+    return { line: Number(match[1]) + 1, column: Number(match[2]) };
+  }
+  return undefined;
+}
+
+// first line of a parse error, without the sax position details
+export function getErrorMessage(error: unknown): string {
+  return `${error}`.split("\n")[0]!;
+}
+
+// CLR namespaces declared on a set root, e.g. Shop for xmlns:shop="clr-namespace:Shop"
+export function declaredNamespaces(rootData: any): string[] {
+  const namespaces: string[] = [];
+  Object.entries(rootData ?? {}).forEach(([name, value]) => {
+    const match = name.startsWith("xmlns") ? /^clr-namespace:([^;]+)/.exec(`${Array.isArray(value) ? value[0] : value}`) : null;
+    if (match) {
+      namespaces.push(match[1]!.trim());
+    }
+  });
+  return namespaces;
+}
+
+export function escapeXml(str: string): string {
+  return str.replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,70 @@
+import { afterAll, describe, expect, mock, test } from "bun:test";
+import path from "node:path";
+import { generate } from "../src/generate";
+import { dataFormats } from "../src/types";
+import { fixturePath, removeFixture, typeErrors, writeOutput } from "./helpers";
+
+// the generated types import ImageSource, which only the Horizon runtime provides
+mock.module("horizon/ui", () => ({ ImageSource: class {} }));
+
+const outputDirectories: string[] = [];
+
+afterAll(() => outputDirectories.forEach(removeFixture));
+
+// the generated ShopMenu set of the fixture, with its binding wrappers
+async function shopMenu(): Promise<any> {
+  const { files } = await generate({ projectPath: fixturePath, bindings: true });
+  const directory = await writeOutput(files);
+  outputDirectories.push(directory);
+  return import(path.join(directory, "ShopMenu.ts"));
+}
+
+describe("binding wrappers", () => {
+  test.each(dataFormats)("type-check with the %s data format", async (dataFormat) => {
+    const { files } = await generate({ projectPath: fixturePath, bindings: true, dataFormat });
+    expect(files.has("NoesisBindings.ts")).toBe(true);
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test("are initialized from the set data", async () => {
+    const { createBinding, createDataContext } = await shopMenu();
+    const binding = createBinding({});
+    expect(binding.Header).toBe("Welcome to the shop");
+    expect(binding.Items.length).toBe(3);
+    expect(binding.Items.at(1).Title).toBe("Healing Potion");
+    expect(JSON.stringify(binding.toData())).toEqual(JSON.stringify(createDataContext({})));
+  });
+
+  test("notify the root of every change with its path", async () => {
+    const { createBinding } = await shopMenu();
+    const binding = createBinding({});
+    const paths: string[] = [];
+    const unsubscribe = binding.subscribe((changed: string) => paths.push(changed));
+    binding.Header = "Sale";
+    binding.Header = "Sale";
+    binding.Featured.Price = 50;
+    binding.Items.at(2).Owned = false;
+    binding.Items.removeAt(0);
+    binding.Items.at(1).Title = "Boots";
+    binding.Tags.push("hot");
+    unsubscribe();
+    binding.Header = "Closed";
+    expect(paths).toEqual(["Header", "Featured.Price", "Items[2].Owned", "Items", "Items[1].Title", "Tags"]);
+    expect(binding.toData().Tags).toEqual(["new", "sale", "hot"]);
+  });
+
+  test("wrap plain values assigned to object and collection properties", async () => {
+    const { createBinding } = await shopMenu();
+    const binding = createBinding({});
+    const paths: string[] = [];
+    binding.subscribe((changed: string) => paths.push(changed));
+    const featured = binding.Featured;
+    binding.Featured = { ...featured.toData(), Title: "Axe" };
+    featured.Price = 1;
+    binding.Featured.Price = 2;
+    binding.Items = [binding.Items.at(0).toData()];
+    binding.Items.at(0).Price = 3;
+    expect(paths).toEqual(["Featured", "Featured.Price", "Items", "Items[0].Price"]);
+    expect(binding.toData().Featured.Title).toBe("Axe");
+  });
+});
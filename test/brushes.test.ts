@@ -0,0 +1,71 @@
+import { afterAll, describe, expect, mock, test } from "bun:test";
+import path from "node:path";
+import { generate } from "../src/generate";
+import { copyFixture, removeFixture, shopSet, typeErrors, writeOutput } from "./helpers";
+
+// the generated types import ImageSource, which only the Horizon runtime provides
+mock.module("horizon/ui", () => ({ ImageSource: class {} }));
+
+const brushSet = shopSet(`  <local:ShopRoot.Featured>
+    <local:ShopItem Title="Big Sword">
+      <local:ShopItem.Background>
+        <RadialGradientBrush GradientOrigin="0.25 0.25" RadiusX="0.75" Opacity="0.5">
+          <RadialGradientBrush.GradientStops>
+            <GradientStopCollection>
+              <GradientStop Color="White" Offset="0" />
+              <GradientStop Color="#80112233" Offset="1" />
+            </GradientStopCollection>
+          </RadialGradientBrush.GradientStops>
+        </RadialGradientBrush>
+      </local:ShopItem.Background>
+    </local:ShopItem>
+  </local:ShopRoot.Featured>
+  <local:ShopRoot.Fills>
+    <LinearGradientBrush EndPoint="1,0">
+      <GradientStop Color="Red" Offset="0.5" />
+    </LinearGradientBrush>
+  </local:ShopRoot.Fills>`);
+
+const projectPath = copyFixture({ ShopMenu: brushSet });
+const outputDirectories: string[] = [];
+
+afterAll(() => [projectPath, ...outputDirectories].forEach(removeFixture));
+
+const featuredBackground = {
+  type: "RadialGradient",
+  center: { x: 0.5, y: 0.5 },
+  gradientOrigin: { x: 0.25, y: 0.25 },
+  radiusX: 0.75,
+  radiusY: 0.5,
+  gradientStops: [{ color: "#FFFFFFFF", offset: 0 }, { color: "#80112233", offset: 1 }],
+  opacity: 0.5,
+};
+
+const fills = [
+  { type: "LinearGradient", startPoint: { x: 0, y: 0 }, endPoint: { x: 1, y: 0 }, gradientStops: [{ color: "#FFFF0000", offset: 0.5 }], opacity: 1 },
+];
+
+describe("gradient brushes", () => {
+  test("type-check in TypeScript data sets", async () => {
+    const { files, diagnostics } = await generate({ projectPath });
+    expect(diagnostics).toEqual([]);
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test("keep their stops, points and opacity in TypeScript data sets", async () => {
+    const { files } = await generate({ projectPath, setName: "ShopMenu" });
+    const directory = await writeOutput(files);
+    outputDirectories.push(directory);
+    const { createDataContext } = await import(path.join(directory, "ShopMenu.ts"));
+    const dataContext = createDataContext({});
+    expect(dataContext.Featured.Background).toEqual(featuredBackground);
+    expect(dataContext.Fills).toEqual(fills);
+  });
+
+  test("keep the same values in JSON data", async () => {
+    const { files } = await generate({ projectPath, setName: "ShopMenu", dataFormat: "json" });
+    const data = JSON.parse(files.get("ShopMenu.json")!);
+    expect(data.Featured.Background).toEqual(featuredBackground);
+    expect(data.Fills).toEqual(fills);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import { readGenerationCache, reusableSets, setHashes, writeGenerationCache } from "../src/cache";
+import { generate, projectDataPath, writeGeneratedFiles, type GenerateOptions } from "../src/generate";
+import { copyFixture, fixturePath, removeFixture, shopSet } from "./helpers";
+
+const projectPath = copyFixture();
+const outputDirectory = path.join(projectPath, "out");
+const dataPath = projectDataPath(projectPath);
+const changedSet = shopSet(`  <local:ShopRoot.Tags>\n    <x:String>changed</x:String>\n  </local:ShopRoot.Tags>`);
+
+afterAll(() => removeFixture(projectPath));
+
+// generate into the output directory as the CLI does, reusing its cache
+async function run() {
+  const previous = readGenerationCache(outputDirectory);
+  const result = await generate({ projectPath, previous });
+  await writeGeneratedFiles(result.files, outputDirectory, false, previous?.sources);
+  await writeGenerationCache(outputDirectory, result.cache);
+  return result;
+}
+
+// the sets the cache of the output directory lets the next run skip, by set file, with whether their outputs are reused
+async function reusable(options: Omit<GenerateOptions, "projectPath"> = {}): Promise<Record<string, boolean>> {
+  const previous = readGenerationCache(outputDirectory);
+  const { cache } = await generate({ projectPath, ...options });
+  return Object.fromEntries(Array.from(reusableSets(previous, cache.options, cache.structures, setHashes(dataPath)), ([file, cachedSet]) => [file, cachedSet.dataSet !== undefined]));
+}
+
+describe("generation cache", () => {
+  beforeEach(async () => {
+    fs.rmSync(outputDirectory, { recursive: true, force: true });
+    fs.cpSync(path.join(fixturePath, ".noesis"), path.join(projectPath, ".noesis"), { recursive: true });
+    fs.writeFileSync(path.join(dataPath, "sets", "Other.xaml"), shopSet(""));
+    await run();
+  });
+
+  test("reuses every set when nothing changed", async () => {
+    expect(await reusable()).toEqual({ "ShopMenu.xaml": true, "Other.xaml": true });
+  });
+
+  test("reads a changed set again", async () => {
+    fs.writeFileSync(path.join(dataPath, "sets", "Other.xaml"), changedSet);
+    expect(await reusable()).toEqual({ "ShopMenu.xaml": true });
+  });
+
+  test("reads every set reaching a changed structure again", async () => {
+    const file = path.join(dataPath, "structures", "ShopItem.xml");
+    fs.writeFileSync(file, fs.readFileSync(file, "utf8").replace(`<Property Name="Owned" Type="Boolean" />`, ""));
+    expect(await reusable()).toEqual({});
+  });
+
+  test("generates edited or removed outputs again", async () => {
+    fs.appendFileSync(path.join(outputDirectory, "ShopMenu.ts"), "// edited\n");
+    fs.rmSync(path.join(outputDirectory, "Other.ts"));
+    expect(await reusable()).toEqual({ "ShopMenu.xaml": false, "Other.xaml": false });
+  });
+
+  test("reuses nothing under other options", async () => {
+    expect(await reusable({ enumStyle: "numeric" })).toEqual({});
+  });
+
+  test("leaves unchanged outputs untouched", async () => {
+    const file = path.join(outputDirectory, "ShopMenu.ts");
+    const past = new Date(2000, 0, 1);
+    fs.utimesSync(file, past, past);
+    fs.writeFileSync(path.join(dataPath, "sets", "Other.xaml"), changedSet);
+    const { files } = await run();
+    expect(files.get("ShopMenu.ts")).toBe(fs.readFileSync(file, "utf8"));
+    expect(fs.statSync(file).mtime).toEqual(past);
+  });
+});
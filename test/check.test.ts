@@ -0,0 +1,119 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import { writeGenerationCache } from "../src/cache";
+import { findStaleFiles, unifiedDiff } from "../src/check";
+import { generate } from "../src/generate";
+import { fixturePath, removeFixture, writeOutput } from "./helpers";
+
+const outputDirectories: string[] = [];
+
+afterAll(() => outputDirectories.forEach(removeFixture));
+
+function lines(text: string): string {
+  return text.split("").map((line) => `${line}\n`).join("");
+}
+
+// the new source rebuilt from the old one and the hunks of their diff
+function applyDiff(oldSource: string, diff: string): string {
+  const oldLines = oldSource.split("\n").slice(0, -1);
+  const newLines: string[] = [];
+  let oldIndex = 0;
+  const diffLines = diff.split("\n").slice(2, -1);
+  diffLines.forEach((line) => {
+    const hunk = line.match(/^@@ -(\d+),(\d+) /);
+    if (hunk) {
+      const start = Number(hunk[2]) === 0 ? Number(hunk[1]) : Number(hunk[1]) - 1;
+      newLines.push(...oldLines.slice(oldIndex, start));
+      oldIndex = start;
+    } else if (line.startsWith("+")) {
+      newLines.push(line.slice(1));
+    } else {
+      oldIndex++;
+      if (line.startsWith(" ")) {
+        newLines.push(line.slice(1));
+      }
+    }
+  });
+  newLines.push(...oldLines.slice(oldIndex));
+  return newLines.map((line) => `${line}\n`).join("");
+}
+
+// length of the longest common subsequence of two strings
+function commonLength(a: string, b: string): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [0];
+    for (let j = 1; j <= b.length; j++) {
+      row.push(a[i - 1] === b[j - 1] ? previous[j - 1]! + 1 : Math.max(previous[j]!, row[j - 1]!));
+    }
+    previous = row;
+  }
+  return previous[b.length]!;
+}
+
+describe("unifiedDiff", () => {
+  test("writes hunks with three lines of context", () => {
+    expect(unifiedDiff("old.ts", "new.ts", lines("abcdefghij"), lines("abcXefghiY"))).toBe(
+      "--- old.ts\n+++ new.ts\n@@ -1,10 +1,10 @@\n a\n b\n c\n-d\n+X\n e\n f\n g\n h\n i\n-j\n+Y\n",
+    );
+    expect(unifiedDiff("old.ts", "new.ts", lines("abcdefghijklmn"), lines("aXcdefghijklYn"))).toBe(
+      "--- old.ts\n+++ new.ts\n@@ -1,5 +1,5 @@\n a\n-b\n+X\n c\n d\n e\n@@ -10,5 +10,5 @@\n j\n k\n l\n-m\n+Y\n n\n",
+    );
+    expect(unifiedDiff("old.ts", "new.ts", "", lines("ab"))).toBe("--- old.ts\n+++ new.ts\n@@ -0,0 +1,2 @@\n+a\n+b\n");
+  });
+
+  test("finds a shortest edit script", () => {
+    let seed = 1;
+    const random = () => (seed = (seed * 48271) % 2147483647) / 2147483647;
+    const text = () => Array.from({ length: Math.floor(random() * 16) }, () => "abc"[Math.floor(random() * 3)]).join("");
+    for (let run = 0; run < 500; run++) {
+      const oldText = text();
+      const newText = text();
+      const diff = unifiedDiff("old", "new", lines(oldText), lines(newText));
+      const edits = diff.split("\n").slice(2).filter((line) => line.startsWith("+") || line.startsWith("-")).length;
+      expect(edits).toBe(oldText.length + newText.length - 2 * commonLength(oldText, newText));
+      expect(applyDiff(lines(oldText), diff)).toBe(lines(newText));
+    }
+  });
+
+  test("diffs large files", () => {
+    const oldLines = Array.from({ length: 50000 }, (_, index) => `line ${index}`);
+    const newLines = oldLines.map((line, index) => index % 5000 === 0 ? `${line} changed` : line);
+    const diff = unifiedDiff("old", "new", `${oldLines.join("\n")}\n`, `${newLines.join("\n")}\n`);
+    expect(diff.split("\n").filter((line) => line.startsWith("@@"))).toHaveLength(10);
+  });
+});
+
+describe("findStaleFiles", () => {
+  test("reports generated files that differ or are missing", async () => {
+    const { files } = await generate({ projectPath: fixturePath });
+    const directory = await writeOutput(files);
+    outputDirectories.push(directory);
+    expect(findStaleFiles(files, directory)).toEqual([]);
+    fs.appendFileSync(path.join(directory, "ShopMenu.ts"), "// edited\n");
+    fs.rmSync(path.join(directory, "NoesisImages.ts"));
+    expect(findStaleFiles(files, directory).map((staleFile) => staleFile.file)).toEqual(["ShopMenu.ts", "NoesisImages.ts"]);
+  });
+
+  test("reports generated files the run no longer produces and leaves other files alone", async () => {
+    const { files, cache } = await generate({ projectPath: fixturePath, dataFormat: "json", schema: true });
+    const directory = await writeOutput(files);
+    outputDirectories.push(directory);
+    fs.writeFileSync(path.join(directory, "Script.ts"), "export const script = 1;\n");
+    fs.writeFileSync(path.join(directory, "settings.json"), "{}\n");
+    const { files: current } = await generate({ projectPath: fixturePath, setName: "ShopMenu", dataFormat: "json" });
+    const removed = findStaleFiles(current, directory).map((staleFile) => staleFile.file).sort();
+    expect(removed).toContain("NoesisCommands.ts");
+    expect(removed).toContain("schema/Shop.ShopItem.schema.json");
+    expect(removed).not.toContain("Script.ts");
+    expect(removed).not.toContain("settings.json");
+    expect(findStaleFiles(current, directory).find((staleFile) => staleFile.file === "NoesisCommands.ts")!.diff).toStartWith(`--- ${directory}/NoesisCommands.ts\n+++ /dev/null\n`);
+
+    // the cache lists outputs without the generated header, such as JSON data
+    await writeGenerationCache(directory, cache);
+    fs.renameSync(path.join(directory, "ShopMenu.ts"), path.join(directory, "Other.ts"));
+    const { files: typesOnly } = await generate({ projectPath: fixturePath, typesOnly: true });
+    expect(findStaleFiles(typesOnly, directory).map((staleFile) => staleFile.file)).toContain("ShopMenu.json");
+  });
+});
@@ -0,0 +1,74 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { colorToHex, normalizeColor, parseColor } from "../src/colors";
+import { generate } from "../src/generate";
+import { copyFixture, removeFixture, shopSet } from "./helpers";
+
+describe("parseColor", () => {
+  test("reads every hex form, repeating the digits of short ones", () => {
+    expect(parseColor("#F00")).toEqual({ r: 255, g: 0, b: 0, a: 255 });
+    expect(parseColor("#8F00")).toEqual({ r: 255, g: 0, b: 0, a: 136 });
+    expect(parseColor("#112233")).toEqual({ r: 17, g: 34, b: 51, a: 255 });
+    expect(parseColor("#80112233")).toEqual({ r: 17, g: 34, b: 51, a: 128 });
+  });
+
+  test("reads named colors case-insensitively", () => {
+    expect(parseColor("CornflowerBlue")).toEqual({ r: 100, g: 149, b: 237, a: 255 });
+    expect(parseColor(" cornflowerblue ")).toEqual({ r: 100, g: 149, b: 237, a: 255 });
+    expect(parseColor("Transparent")).toEqual({ r: 255, g: 255, b: 255, a: 0 });
+  });
+
+  test("rejects malformed colors", () => {
+    ["", "#", "#12345", "#1234567", "#GG0000", "notacolor", "112233"].forEach((value) => {
+      expect(parseColor(value)).toBeUndefined();
+    });
+  });
+});
+
+describe("colorToHex", () => {
+  test("writes #AARRGGBB, opaque when the alpha is missing", () => {
+    expect(colorToHex({ r: 17, g: 34, b: 51, a: 128 })).toBe("#80112233");
+    expect(colorToHex({ r: 255, g: 0, b: 0 })).toBe("#FFFF0000");
+  });
+
+  test("rejects values that are not RGBA", () => {
+    expect(colorToHex("#FF0000")).toBeUndefined();
+    expect(colorToHex({ r: 256, g: 0, b: 0, a: 255 })).toBeUndefined();
+    expect(colorToHex({ r: 0.5, g: 0, b: 0, a: 255 })).toBeUndefined();
+  });
+});
+
+describe("normalizeColor", () => {
+  test("gives #AARRGGBB, transparent for malformed colors", () => {
+    expect(normalizeColor("red")).toBe("#FFFF0000");
+    expect(normalizeColor("#123")).toBe("#FF112233");
+    expect(normalizeColor("#GG0000")).toBe("#00000000");
+  });
+});
+
+describe("brush colors in data sets", () => {
+  const projectPath = copyFixture({
+    Brushes: shopSet(`  <local:ShopRoot.Items>
+    <local:ShopItem Title="Named" Background="Red" />
+    <local:ShopItem Title="Malformed" Background="#GG0000" />
+  </local:ShopRoot.Items>
+  <local:ShopRoot.Fills>
+    <LinearGradientBrush>
+      <GradientStop Color="Blue" Offset="0" />
+      <GradientStop Color="notacolor" Offset="1" />
+    </LinearGradientBrush>
+  </local:ShopRoot.Fills>`),
+  });
+
+  afterAll(() => removeFixture(projectPath));
+
+  test("are normalized like Color values", async () => {
+    const { files, diagnostics } = await generate({ projectPath, setName: "Brushes", dataFormat: "json" });
+    const data = JSON.parse(files.get("Brushes.json")!);
+    expect(data.Items.map((item: any) => item.Background)).toEqual(["#FFFF0000", "#00000000"]);
+    expect(data.Fills[0].gradientStops.map((stop: any) => stop.color)).toEqual(["#FF0000FF", "#00000000"]);
+    expect(diagnostics.filter((diagnostic) => diagnostic.code === "invalid-value").map((diagnostic) => diagnostic.path)).toEqual([
+      "ShopRoot.Items[1].Background",
+      "ShopRoot.Fills[0].GradientStops[1]",
+    ]);
+  });
+});
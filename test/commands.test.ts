@@ -0,0 +1,59 @@
+import { afterAll, describe, expect, mock, test } from "bun:test";
+import path from "node:path";
+import { generate } from "../src/generate";
+import { copyFixture, removeFixture, typeErrors, writeOutput } from "./helpers";
+
+// the generated types import ImageSource, which only the Horizon runtime provides
+mock.module("horizon/ui", () => ({ ImageSource: class {} }));
+
+// set with a message command, an unset command and a command of a type the generator does not know
+const commandSet = `<local:ShopRoot xmlns="http://schemas.microsoft.com/winfx/2006/xaml/presentation" xmlns:noesis="clr-namespace:NoesisGUIExtensions;assembly=Noesis.GUI.Extensions" xmlns:local="clr-namespace:Shop" Header="Commands">
+  <local:ShopRoot.Featured>
+    <local:ShopItem Title="Big Sword">
+      <local:ShopItem.Buy>
+        <noesis:MessageCommand Message="buy" />
+      </local:ShopItem.Buy>
+    </local:ShopItem>
+  </local:ShopRoot.Featured>
+  <local:ShopRoot.Close>
+    <noesis:DelegateCommand />
+  </local:ShopRoot.Close>
+</local:ShopRoot>
+`;
+
+const projectPath = copyFixture({ ShopMenu: commandSet });
+const outputDirectories: string[] = [];
+
+afterAll(() => {
+  removeFixture(projectPath);
+  outputDirectories.forEach((directory) => removeFixture(directory));
+});
+
+describe("generated commands", () => {
+  test("type-check", async () => {
+    const { files } = await generate({ projectPath });
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test("report an unrecognized command type", async () => {
+    const { diagnostics } = await generate({ projectPath });
+    expect(diagnostics.map((diagnostic) => [diagnostic.severity, diagnostic.code])).toEqual([["warning", "unknown-command"]]);
+  });
+
+  test("dispatch messages and share one no-op for unset and unrecognized commands", async () => {
+    const { files } = await generate({ projectPath });
+    const directory = await writeOutput(files);
+    outputDirectories.push(directory);
+    const types = await import(path.join(directory, "NoesisTypes.ts"));
+    const { createDataContext } = await import(path.join(directory, "ShopMenu.ts"));
+    const calls: unknown[] = [];
+    const dataContext = createDataContext({ buy: (parameter: unknown) => calls.push(parameter) });
+    dataContext.Featured.Buy(3);
+    expect(calls).toEqual([3]);
+    expect(dataContext.Featured.Buy[types.commandMessageKey]).toBe("buy");
+    expect(dataContext.Close).toBe(types.unsetCommand);
+    expect(types.createShopItem().Buy).toBe(types.unsetCommand);
+    expect(types.unsetCommand()).toBeUndefined();
+    expect(types.unsetCommand[types.commandMessageKey]).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import { configTypes, readProjectConfig } from "../src/config";
+import type { Diagnostic } from "../src/diagnostics";
+import { generate } from "../src/generate";
+import { defaultTypeConfig } from "../src/types";
+import { copyFixture, removeFixture, typeErrors } from "./helpers";
+
+const projectPaths: string[] = [];
+
+afterAll(() => projectPaths.forEach(removeFixture));
+
+// a copy of the fixture with the given project config
+function configuredProject(config: unknown): string {
+  const projectPath = copyFixture();
+  projectPaths.push(projectPath);
+  fs.writeFileSync(path.join(projectPath, "noesis2hzw.config.json"), JSON.stringify(config));
+  return projectPath;
+}
+
+describe("project config", () => {
+  test("merges type mappings, aliases and enum defaults over the built-ins", () => {
+    const types = configTypes({ typeMappings: { Decimal: "number" }, subTypeAliases: { Money: "Decimal" }, defaults: { "Shop.ItemKind": "Armor", String: "-" } });
+    expect(types.builtInSubTypes).toEqual({ ...defaultTypeConfig.builtInSubTypes, Decimal: "number" });
+    expect(types.subTypeAliases).toEqual({ ...defaultTypeConfig.subTypeAliases, Money: "Decimal" });
+    expect(types.enumDefaults).toEqual({ ...defaultTypeConfig.enumDefaults, "Shop.ItemKind": "Armor" });
+    expect(configTypes({ indentLevel: 4 })).toBe(defaultTypeConfig);
+  });
+
+  test("types structures by their configured subtype aliases", async () => {
+    const projectPath = configuredProject({ typeMappings: { Decimal: "number" }, subTypeAliases: { Money: "Decimal", Flag: "Boolean" } });
+    fs.writeFileSync(path.join(projectPath, ".noesis", "data", "structures", "Wallet.xml"), `<Class Name="Wallet" Namespace="Shop">
+  <Property Name="Balance" Type="Object" SubType="Money" />
+  <Property Name="Open" Type="Object" SubType="Flag" />
+  <Property Name="Active" Type="Object" SubType="Bool" />
+</Class>
+`);
+    const { files, diagnostics } = await generate({ projectPath, typesOnly: true });
+    expect(diagnostics).toEqual([]);
+    const types = files.get("NoesisTypes.ts")!;
+    expect(types).toContain("Balance: number | null;");
+    expect(types).toContain("Open: boolean | null;");
+    expect(types).toContain("Active: boolean | null;");
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test("applies its naming and output options", async () => {
+    const projectPath = configuredProject({ naming: { typesFile: "ShopTypes.ts" }, bindings: true, indentLevel: 4 });
+    const { files } = await generate({ projectPath });
+    expect(files.has("ShopTypes.ts")).toBe(true);
+    expect(files.has("NoesisTypes.ts")).toBe(false);
+    expect(files.has("NoesisBindings.ts")).toBe(true);
+    expect(files.get("ShopTypes.ts")).toContain("\n    Title: string;");
+  });
+
+  test("yields to the options given", async () => {
+    const projectPath = configuredProject({ bindings: true, schema: true, prefixNamespaces: true, naming: { typesFile: "ShopTypes.ts" } });
+    const { files } = await generate({ projectPath, bindings: false, schema: false, prefixNamespaces: false, naming: { typesFile: "Types.ts" } });
+    expect(files.has("Types.ts")).toBe(true);
+    expect(files.has("NoesisBindings.ts")).toBe(false);
+    expect(Array.from(files.keys()).some((file) => file.startsWith("schema/"))).toBe(false);
+    expect(files.get("Types.ts")).toContain("export type ShopItem = {");
+  });
+
+  test("reports and drops invalid fields", async () => {
+    const projectPath = configuredProject({
+      indentLevel: -1,
+      naming: { typesFile: "Types", dataContextExport: "create context", imagesFile: "Images.ts", unknown: "x" },
+      sets: { ShopMenu: { exportName: 5, exclude: false, title: "Shop" }, Other: "x" },
+      subTypeAliases: { Money: 3, Flag: "Boolean" },
+    });
+    const diagnostics: Diagnostic[] = [];
+    const config = await readProjectConfig(projectPath, diagnostics);
+    expect(diagnostics.map(({ severity, code, message }) => [severity, code, message])).toEqual([
+      ["error", "invalid-value", "indentLevel must be a non-negative integer: -1"],
+      ["error", "invalid-value", "Subtype alias Money must name a subtype: 3"],
+      ["error", "invalid-value", `naming.typesFile must be a .ts file name: "Types"`],
+      ["error", "invalid-value", `naming.dataContextExport must be an identifier: "create context"`],
+      ["error", "invalid-value", "Unknown naming option unknown"],
+      ["error", "invalid-value", "sets.ShopMenu.exportName must be an identifier: 5"],
+      ["error", "invalid-value", "Unknown option title of set ShopMenu"],
+      ["error", "invalid-value", `Options of set Other must be an object: "x"`],
+    ]);
+    expect(config.indentLevel).toBeUndefined();
+    expect(config.naming).toEqual({ imagesFile: "Images.ts" });
+    expect(config.sets).toEqual({ ShopMenu: { exclude: false } });
+    expect(config.subTypeAliases).toEqual({ Flag: "Boolean" });
+    const { files } = await generate({ projectPath });
+    expect(files.get("NoesisTypes.ts")).toContain("\n  Title: string;");
+    expect(files.get("ShopMenu.ts")).toContain("export function createDataContext(");
+  });
+
+  test("reports naming and sets that are not objects", async () => {
+    const diagnostics: Diagnostic[] = [];
+    const config = await readProjectConfig(configuredProject({ naming: "Types.ts", sets: [] }), diagnostics);
+    expect(diagnostics.map(({ message }) => message)).toEqual([`naming must be an object: "Types.ts"`, "sets must be an object: []"]);
+    expect(config.naming).toBeUndefined();
+    expect(config.sets).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import { afterAll, describe, expect, mock, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { generate, writeGeneratedFiles, type GenerateOptions } from "../src/generate";
+import { typesFileName } from "../src/structures";
+import { fixturePath } from "./helpers";
+
+// the generated types import ImageSource, which only the Horizon runtime provides
+mock.module("horizon/ui", () => ({ ImageSource: class {} }));
+
+const outputDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "noesis2hzw-"));
+
+afterAll(() => fs.rmSync(outputDirectory, { recursive: true, force: true }));
+
+// the generated loader of the fixture's ShopMenu set, with the text of its JSON data
+async function loadShopMenu(options: Omit<GenerateOptions, "projectPath"> = {}): Promise<{ loader: any; json: string; types: any }> {
+  const directory = fs.mkdtempSync(path.join(outputDirectory, "out-"));
+  const { files } = await generate({ projectPath: fixturePath, dataFormat: "json", ...options });
+  await writeGeneratedFiles(files, directory, false);
+  return { loader: await import(path.join(directory, "ShopMenu.ts")), json: files.get("ShopMenu.json")!, types: await import(path.join(directory, typesFileName)) };
+}
+
+// handlers recording every command call as message:parameter
+function recordingHandlers(calls: string[]): any {
+  return new Proxy({}, { get: (_, message) => (parameter: unknown) => calls.push(`${String(message)}:${parameter}`) });
+}
+
+describe("JSON data loader", () => {
+  test("rehydrates commands, leaving unset commands the shared no-op", async () => {
+    const { loader, json, types } = await loadShopMenu();
+    const calls: string[] = [];
+    const dataContext = loader.createDataContext(recordingHandlers(calls), json);
+    dataContext.Featured.Buy(1);
+    dataContext.Items[0].Buy(2);
+    dataContext.Close();
+    expect(calls).toEqual(["buyFeatured:1", "buyItem:2", "close:undefined"]);
+    expect(dataContext.Items[1].Buy).toBe(types.unsetCommand);
+    expect(dataContext.Items[1].Buy(3)).toBeUndefined();
+    expect(calls).toHaveLength(3);
+    expect(dataContext.Items.map((item: any) => item.Title)).toEqual(["Shield", "Healing Potion", "Old Boots"]);
+  });
+
+  test("rehydrates numeric enums from their item names", async () => {
+    const { loader, json } = await loadShopMenu({ enumStyle: "numeric" });
+    expect(JSON.parse(json).Items[1].Kind).toBe("Potion");
+    const dataContext = loader.createDataContext(recordingHandlers([]), json);
+    expect(dataContext.Items.map((item: any) => item.Kind)).toEqual([1, 5, 1]);
+  });
+
+  test("pages collections", async () => {
+    const { loader, json } = await loadShopMenu();
+    const calls: string[] = [];
+    const { dataContext, hasMorePages, loadNextPage } = loader.createPagedDataContext(recordingHandlers(calls), json, 2);
+    expect(dataContext.Items.map((item: any) => item.Title)).toEqual(["Shield", "Healing Potion"]);
+    expect(hasMorePages(dataContext.Items)).toBe(true);
+    expect(loadNextPage(dataContext.Items)).toBe(false);
+    expect(dataContext.Items.map((item: any) => item.Title)).toEqual(["Shield", "Healing Potion", "Old Boots"]);
+    expect(hasMorePages(dataContext.Items)).toBe(false);
+    expect(loadNextPage(dataContext.Items)).toBe(false);
+    // items of later pages are rehydrated as they load
+    expect(dataContext.Items[2]).toMatchObject({ Owned: true, Background: "#FFFF0000" });
+    expect(dataContext.Items[2].Buy).toBeFunction();
+    dataContext.Items[0].Buy(5);
+    expect(calls).toEqual(["buyItem:5"]);
+    // collections that fit in a page are complete
+    expect(dataContext.Tags).toEqual(["new", "sale"]);
+    expect(hasMorePages(dataContext.Tags)).toBe(false);
+  });
+});
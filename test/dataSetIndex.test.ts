@@ -0,0 +1,64 @@
+import { afterAll, describe, expect, mock, test } from "bun:test";
+import path from "node:path";
+import { generate } from "../src/generate";
+import { dataFormats } from "../src/types";
+import { copyFixture, removeFixture, typeErrors, writeOutput } from "./helpers";
+
+// the generated types import ImageSource, which only the Horizon runtime provides
+mock.module("horizon/ui", () => ({ ImageSource: class {} }));
+
+// a second set, rooted at another structure and named like no identifier
+const saleSet = `<local:ShopItem xmlns="http://schemas.microsoft.com/winfx/2006/xaml/presentation" xmlns:local="clr-namespace:Shop" Title="Sale" Price="5" />
+`;
+
+const projectPath = copyFixture({ "Sale-2": saleSet });
+const outputDirectories: string[] = [];
+
+afterAll(() => [projectPath, ...outputDirectories].forEach(removeFixture));
+
+// game code using the index, which must type-check against it
+const usage = `import { createDataSets, dataSetNames, getDataSet, type DataSetName } from "./NoesisDataSets";
+import type { ShopItem, ShopRoot } from "./NoesisTypes";
+
+const dataSets = createDataSets({ buyFeatured: () => {}, buyItem: () => {}, close: () => {} });
+const menu: ShopRoot = getDataSet(dataSets, "ShopMenu");
+const sale: ShopItem = dataSets["Sale-2"];
+const names: DataSetName[] = dataSetNames;
+// @ts-expect-error sets are keyed by their names only
+getDataSet(dataSets, "Missing");
+// @ts-expect-error each set is typed by its own root structure
+const wrong: ShopItem = getDataSet(dataSets, "ShopMenu");
+export { menu, sale, names, wrong };
+`;
+
+describe("data set index", () => {
+  test("types every set by name", async () => {
+    const { files } = await generate({ projectPath });
+    expect(await typeErrors(new Map([...files, ["usage.ts", usage]]))).toEqual([]);
+  });
+
+  test.each(dataFormats)("type-checks with the %s data format", async (dataFormat) => {
+    const { files } = await generate({ projectPath, dataFormat });
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test("creates each data context on first access and reuses it", async () => {
+    const { files } = await generate({ projectPath, dataFormat: "json" });
+    const directory = await writeOutput(files);
+    outputDirectories.push(directory);
+    const index = await import(path.join(directory, "NoesisDataSets.ts"));
+    expect(index.dataSetNames).toEqual(["Sale-2", "ShopMenu"]);
+    const requested: string[] = [];
+    const dataSets = index.createDataSets({}, (name: string) => {
+      requested.push(name);
+      return files.get(name === "ShopMenu" ? "ShopMenu.json" : "Sale-2.json")!;
+    });
+    expect(requested).toEqual([]);
+    const sale = index.getDataSet(dataSets, "Sale-2");
+    expect(sale.Title).toBe("Sale");
+    expect(dataSets["Sale-2"]).toBe(sale);
+    expect(requested).toEqual(["Sale-2"]);
+    expect(dataSets.ShopMenu.Header).toBe("Welcome to the shop");
+    expect(requested).toEqual(["Sale-2", "ShopMenu"]);
+  });
+});
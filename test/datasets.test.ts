@@ -0,0 +1,57 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { generate } from "../src/generate";
+import { copyFixture, removeFixture, shopSet } from "./helpers";
+
+const projectPath = copyFixture({
+  Malformed: shopSet(`  <local:ShopRoot.Items>
+    <local:ShopItem Title="Broken" Price="abc" Owned="maybe" Kind="Purple" />
+  </local:ShopRoot.Items>`),
+  Texts: shopSet(`  <local:ShopRoot.Items>
+    <local:ShopItem Title="007" Price="007" Owned="TRUE" Kind="Armor" />
+    <local:ShopItem Title="True" Price=" 1.50 " Owned="False" Kind="Armor" />
+  </local:ShopRoot.Items>
+  <local:ShopRoot.Tags>
+    <x:String>0042</x:String>
+    <x:String>false</x:String>
+  </local:ShopRoot.Tags>`),
+});
+
+afterAll(() => removeFixture(projectPath));
+
+describe("malformed values", () => {
+  test("are generated as the property defaults and reported", async () => {
+    const { files, diagnostics } = await generate({ projectPath, setName: "Malformed" });
+    const source = files.get("Malformed.ts")!;
+    expect(source).toContain("Price: 0,");
+    expect(source).toContain("Owned: false,");
+    expect(source).toContain("Kind: ItemKind.Weapon,");
+    expect(diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.path])).toEqual([
+      ["invalid-value", "ShopRoot.Items[0].Price"],
+      ["invalid-value", "ShopRoot.Items[0].Owned"],
+      ["unknown-enum-member", "ShopRoot.Items[0].Kind"],
+    ]);
+  });
+
+  test("are written to JSON data as the property defaults", async () => {
+    const { files } = await generate({ projectPath, setName: "Malformed", dataFormat: "json" });
+    const data = JSON.parse(files.get("Malformed.json")!);
+    expect(data.Items[0]).toMatchObject({ Price: 0, Owned: false, Kind: "Weapon" });
+  });
+});
+
+describe("values", () => {
+  test("of String properties and items keep their text", async () => {
+    const { files, diagnostics } = await generate({ projectPath, setName: "Texts", dataFormat: "json" });
+    const data = JSON.parse(files.get("Texts.json")!);
+    expect(diagnostics).toEqual([]);
+    expect(data.Items.map((item: any) => item.Title)).toEqual(["007", "True"]);
+    expect(data.Tags).toEqual(["0042", "false"]);
+  });
+
+  test("of Number and Boolean properties are converted", async () => {
+    const { files } = await generate({ projectPath, setName: "Texts" });
+    const source = files.get("Texts.ts")!;
+    expect(source).toContain(`Title: "007",\n        Price: 7,\n        Owned: true,`);
+    expect(source).toContain(`Title: "True",\n        Price: 1.5,\n        Owned: false,`);
+  });
+});
@@ -0,0 +1,104 @@
+import { afterAll, describe, expect, mock, test } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import { generate, type GenerateOptions } from "../src/generate";
+import { dataFormats, enumStyles } from "../src/types";
+import { copyFixture, fixturePath, removeFixture, shopSet, typeErrors, writeOutput } from "./helpers";
+
+// the generated types import ImageSource, which only the Horizon runtime provides
+mock.module("horizon/ui", () => ({ ImageSource: class {} }));
+
+// a featured item leaving its Kind unset, and one setting it
+const kindSet = shopSet(`  <local:ShopRoot.Featured>
+    <local:ShopItem Title="Big Sword" />
+  </local:ShopRoot.Featured>
+  <local:ShopRoot.Items>
+    <local:ShopItem Title="Healing Potion" Kind="Potion" />
+  </local:ShopRoot.Items>`);
+
+const projectPath = copyFixture({ ShopMenu: kindSet });
+const outputDirectories: string[] = [];
+
+afterAll(() => [projectPath, ...outputDirectories].forEach(removeFixture));
+
+// the generated types and ShopMenu data context of a project
+async function generated(options: Omit<GenerateOptions, "projectPath">, project = projectPath): Promise<{ types: any; dataContext: any }> {
+  const { files } = await generate({ projectPath: project, ...options });
+  const directory = await writeOutput(files);
+  outputDirectories.push(directory);
+  const { createDataContext } = await import(path.join(directory, "ShopMenu.ts"));
+  return { types: await import(path.join(directory, "NoesisTypes.ts")), dataContext: createDataContext({}) };
+}
+
+describe("enum styles", () => {
+  const combinations = enumStyles.flatMap((enumStyle) => dataFormats.map((dataFormat) => [enumStyle, dataFormat] as const));
+
+  test.each(combinations)("type-check under the %s style with the %s data format", async (enumStyle, dataFormat) => {
+    const { files } = await generate({ projectPath: fixturePath, enumStyle, dataFormat });
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test("numeric enums carry the Noesis values", async () => {
+    const { types, dataContext } = await generated({ enumStyle: "numeric" });
+    expect(types.ItemKind.Potion).toBe(5);
+    expect(dataContext.Items[0].Kind).toBe(5);
+  });
+
+  test.each(["string", "union"] as const)("%s enums map their items to the Noesis values", async (enumStyle) => {
+    const { types, dataContext } = await generated({ enumStyle });
+    expect(types.ItemKind.Potion).toBe("Potion");
+    expect(dataContext.Items[0].Kind).toBe("Potion");
+    expect(types.ItemKindValues).toEqual({ Weapon: 0, Armor: 1, Potion: 5 });
+  });
+});
+
+describe("enum defaults", () => {
+  test("are the item valued 0", async () => {
+    const { types, dataContext } = await generated({ enumStyle: "numeric" });
+    expect(dataContext.Featured.Kind).toBe(types.ItemKind.Weapon);
+    expect(types.createShopItem().Kind).toBe(types.ItemKind.Weapon);
+  });
+
+  test("can be configured per enum", async () => {
+    const configuredProject = copyFixture({ ShopMenu: kindSet });
+    outputDirectories.push(configuredProject);
+    fs.writeFileSync(path.join(configuredProject, "noesis2hzw.config.json"), JSON.stringify({ defaults: { "Shop.ItemKind": "Armor" } }));
+    const { types, dataContext } = await generated({ enumStyle: "string" }, configuredProject);
+    expect(dataContext.Featured.Kind).toBe("Armor");
+    expect(types.createShopItem().Kind).toBe("Armor");
+  });
+
+  test("leave out and report properties of unknown enums rather than casting", async () => {
+    const unknownProject = copyFixture({ ShopMenu: kindSet });
+    outputDirectories.push(unknownProject);
+    fs.writeFileSync(path.join(unknownProject, ".noesis", "data", "structures", "Gadget.xml"), `<Class Name="Gadget" Namespace="Shop">
+  <Property Name="Mode" Type="Enum" SubType="Shop.Missing" />
+  <Property Name="Item" Type="Enum" SubType="Shop.ShopItem" />
+  <Property Name="Kind" Type="Enum" SubType="Shop.ItemKind" />
+  <Property Name="Tint" Type="Object" SubType="Color" />
+</Class>
+`);
+    const { files, diagnostics } = await generate({ projectPath: unknownProject, enumStyle: "numeric" });
+    expect(diagnostics.map(({ code, path }) => [code, path])).toEqual([
+      ["unknown-structure-type", "Gadget.Mode"],
+      ["unknown-structure-type", "Gadget.Item"],
+    ]);
+    expect(Array.from(files.values()).some((source) => source.includes("as any"))).toBe(false);
+    expect(await typeErrors(files)).toEqual([]);
+    const directory = await writeOutput(files);
+    outputDirectories.push(directory);
+    const types = await import(path.join(directory, "NoesisTypes.ts"));
+    expect(types.createGadget()).toEqual({ Kind: types.ItemKind.Weapon, Tint: null });
+  });
+
+  test("report a configured default that is not an item", async () => {
+    const configuredProject = copyFixture({ ShopMenu: kindSet });
+    outputDirectories.push(configuredProject);
+    fs.writeFileSync(path.join(configuredProject, "noesis2hzw.config.json"), JSON.stringify({ defaults: { "Shop.ItemKind": "Shield" } }));
+    const { files, diagnostics } = await generate({ projectPath: configuredProject });
+    expect(diagnostics.map(({ severity, code, message }) => [severity, code, message])).toEqual([
+      ["error", "invalid-value", "Default Shield of Shop.ItemKind is not an item of an enum"],
+    ]);
+    expect(files.get("ShopMenu.ts")).toContain("Kind: ItemKind.Weapon");
+  });
+});
@@ -0,0 +1,86 @@
+import { afterAll, describe, expect, mock, test } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import { exportSet } from "../src/export";
+import { generate } from "../src/generate";
+import { copyFixture, removeFixture, writeOutput } from "./helpers";
+
+// the generated types import ImageSource, which only the Horizon runtime provides
+mock.module("horizon/ui", () => ({ ImageSource: class {} }));
+
+const projectPath = copyFixture();
+const setFile = path.join(projectPath, ".noesis", "data", "sets", "ShopMenu.xaml");
+const outputDirectories: string[] = [];
+
+afterAll(() => [projectPath, ...outputDirectories].forEach(removeFixture));
+
+async function jsonData(): Promise<any> {
+  const { files } = await generate({ projectPath, setName: "ShopMenu", dataFormat: "json" });
+  return JSON.parse(files.get("ShopMenu.json")!);
+}
+
+describe("export", () => {
+  test("round-trips a set through its JSON data", async () => {
+    const data = await jsonData();
+    const { source, diagnostics } = await exportSet({ projectPath, setName: "ShopMenu", dataContext: data });
+    expect(diagnostics).toEqual([]);
+    fs.writeFileSync(setFile, source);
+    expect(await jsonData()).toEqual(data);
+  });
+
+  test("reads command messages from the generated factory without calling the commands", async () => {
+    const { files } = await generate({ projectPath, setName: "ShopMenu" });
+    const directory = await writeOutput(files);
+    outputDirectories.push(directory);
+    const { createDataContext } = await import(path.join(directory, "ShopMenu.ts"));
+    const { source, diagnostics } = await exportSet({ projectPath, setName: "ShopMenu", dataContext: createDataContext });
+    expect(diagnostics).toEqual([]);
+    expect(source.match(/<noesis:MessageCommand Message="\w+" \/>/g)).toEqual([
+      `<noesis:MessageCommand Message="buyFeatured" />`,
+      `<noesis:MessageCommand Message="buyItem" />`,
+      `<noesis:MessageCommand Message="close" />`,
+    ]);
+  });
+
+  test("reports commands it did not generate", async () => {
+    let called = false;
+    const data = { ...await jsonData(), Close: () => { called = true; } };
+    const { source, diagnostics } = await exportSet({ projectPath, setName: "ShopMenu", dataContext: data });
+    expect(called).toBe(false);
+    expect(source).not.toContain(`Message="close"`);
+    expect(diagnostics.map(({ code, path }) => [code, path])).toEqual([["unknown-command", "ShopRoot.Close"]]);
+  });
+
+  test("declares the structure namespaces of a new set and round-trips it", async () => {
+    const data = await jsonData();
+    const { source, diagnostics } = await exportSet({ projectPath, setName: "NewMenu", rootStructure: "ShopRoot", dataContext: data });
+    expect(diagnostics).toEqual([]);
+    expect(source).toStartWith(`<local:ShopRoot xmlns="http://schemas.microsoft.com/winfx/2006/xaml/presentation" xmlns:x="http://schemas.microsoft.com/winfx/2006/xaml" xmlns:noesis="clr-namespace:NoesisGUIExtensions;assembly=Noesis.GUI.Extensions" xmlns:local="clr-namespace:Shop" `);
+    expect(source).toContain(`<local:ShopItem Title="Shield"`);
+    fs.writeFileSync(path.join(projectPath, ".noesis", "data", "sets", "NewMenu.xaml"), source);
+    const { files } = await generate({ projectPath, setName: "NewMenu", dataFormat: "json" });
+    expect(JSON.parse(files.get("NewMenu.json")!)).toEqual(data);
+  });
+
+  test("keeps the prefix an existing set declares for a structure namespace", async () => {
+    fs.writeFileSync(path.join(projectPath, ".noesis", "data", "sets", "Prefixed.xaml"), `<shop:ShopRoot xmlns="http://schemas.microsoft.com/winfx/2006/xaml/presentation" xmlns:shop="clr-namespace:Shop" />\n`);
+    const { source } = await exportSet({ projectPath, setName: "Prefixed", dataContext: await jsonData() });
+    expect(source).toContain(`xmlns:shop="clr-namespace:Shop"`);
+    expect(source).not.toContain("xmlns:local");
+    expect(source).toContain("<shop:ShopItem ");
+  });
+
+  test("writes String items in the XAML namespace and gradient brush items", async () => {
+    const { source } = await exportSet({ projectPath, setName: "ShopMenu", dataContext: await jsonData() });
+    expect(source).toContain(`xmlns:x="http://schemas.microsoft.com/winfx/2006/xaml"`);
+    expect(source).toContain("<x:String>new</x:String>");
+    expect(source).toContain(`<LinearGradientBrush StartPoint="0,0" EndPoint="0,1">`);
+  });
+
+  test("reports brush items it cannot write", async () => {
+    const data = { ...await jsonData(), Fills: [{ type: "Conic" }] };
+    const { source, diagnostics } = await exportSet({ projectPath, setName: "ShopMenu", dataContext: data });
+    expect(source).not.toContain("Conic");
+    expect(diagnostics.map(({ code, path }) => [code, path])).toEqual([["invalid-value", "ShopRoot.Fills[0]"]]);
+  });
+});
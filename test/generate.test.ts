@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import { generate, projectDataPath } from "../src/generate";
+import { fixturePath, typeErrors } from "./helpers";
+
+describe("generate", () => {
+  test("returns every output in memory without writing to the project", async () => {
+    const before = fs.readdirSync(projectDataPath(fixturePath), { recursive: true });
+    const { files, diagnostics, dataSets } = await generate({ projectPath: fixturePath });
+    expect(Array.from(files.keys()).sort()).toEqual(["NoesisCommands.ts", "NoesisDataSets.ts", "NoesisImages.ts", "NoesisTypes.ts", "ShopMenu.ts"]);
+    expect(diagnostics).toEqual([]);
+    expect(dataSets.map((dataSet) => [dataSet.setFile, dataSet.rootStructure, dataSet.commandMessages.sort()])).toEqual([
+      ["ShopMenu.xaml", "Shop.ShopRoot", ["buyFeatured", "buyItem", "close"]],
+    ]);
+    expect(fs.readdirSync(projectDataPath(fixturePath), { recursive: true })).toEqual(before);
+  });
+
+  test("generates output that type-checks", async () => {
+    const { files } = await generate({ projectPath: fixturePath });
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test("generates only the types and the named set for a single set", async () => {
+    const { files } = await generate({ projectPath: fixturePath, setName: "ShopMenu" });
+    expect(Array.from(files.keys()).sort()).toEqual(["NoesisTypes.ts", "ShopMenu.ts"]);
+  });
+
+  test("generates only the types when asked to", async () => {
+    const { files, dataSets } = await generate({ projectPath: fixturePath, typesOnly: true });
+    expect(Array.from(files.keys())).toEqual(["NoesisTypes.ts"]);
+    expect(dataSets).toEqual([]);
+  });
+
+  test("indents by the indent level", async () => {
+    const { files } = await generate({ projectPath: fixturePath, indentLevel: 4, typesOnly: true });
+    expect(files.get("NoesisTypes.ts")).toContain("export type ShopItem = {\n    Title: string;\n");
+  });
+});
@@ -0,0 +1,67 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import ts from "typescript";
+import { writeGeneratedFiles } from "../src/generate";
+
+export const fixturePath = path.join(import.meta.dir, "fixtures", "shop");
+
+// copy of the fixture project in a temporary directory, with the given sets added or replaced
+export function copyFixture(sets: Record<string, string> = {}): string {
+  const projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "noesis2hzw-"));
+  fs.cpSync(fixturePath, projectPath, { recursive: true });
+  Object.entries(sets).forEach(([name, source]) => {
+    fs.writeFileSync(path.join(projectPath, ".noesis", "data", "sets", `${name}.xaml`), source);
+  });
+  return projectPath;
+}
+
+export function removeFixture(projectPath: string) {
+  fs.rmSync(projectPath, { recursive: true, force: true });
+}
+
+// the parts of the Horizon runtime generated files use
+const horizonDeclarations = `declare const console: { warn(...data: unknown[]): void };
+declare module "horizon/core" {
+  export class TextureAsset { constructor(id: bigint); }
+}
+declare module "horizon/ui" {
+  export class ImageSource { static fromTextureAsset(asset: unknown): ImageSource; }
+}
+`;
+
+// generated files written to a new temporary directory, which the caller removes
+export async function writeOutput(files: Map<string, string>): Promise<string> {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "noesis2hzw-out-"));
+  await writeGeneratedFiles(files, directory, false);
+  return directory;
+}
+
+// type errors of the generated TypeScript files, compiled strictly as a Horizon Worlds script
+export async function typeErrors(files: Map<string, string>): Promise<string[]> {
+  const directory = await writeOutput(files);
+  try {
+    fs.writeFileSync(path.join(directory, "horizon.d.ts"), horizonDeclarations);
+    const rootNames = [...Array.from(files.keys()).filter((file) => file.endsWith(".ts")), "horizon.d.ts"].map((file) => path.join(directory, file));
+    const program = ts.createProgram(rootNames, {
+      strict: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ESNext,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      lib: ["lib.esnext.d.ts"],
+      types: [],
+    });
+    return ts.getPreEmitDiagnostics(program).map((diagnostic) => {
+      const file = diagnostic.file ? `${path.relative(directory, diagnostic.file.fileName)}: ` : "";
+      return `${file}${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")}`;
+    });
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+// a set of the fixture's ShopRoot with the given content
+export function shopSet(content: string): string {
+  return `<local:ShopRoot xmlns="http://schemas.microsoft.com/winfx/2006/xaml/presentation" xmlns:x="http://schemas.microsoft.com/winfx/2006/xaml" xmlns:local="clr-namespace:Shop" Header="Test">\n${content}\n</local:ShopRoot>\n`;
+}
@@ -0,0 +1,54 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import { generate } from "../src/generate";
+import { outputImageManifest } from "../src/images";
+import { copyFixture, removeFixture, typeErrors } from "./helpers";
+
+const projectPath = copyFixture({
+  Banners: `<local:Banner xmlns="http://schemas.microsoft.com/winfx/2006/xaml/presentation" xmlns:local="clr-namespace:Shop" Picture="/Shop;component/Images/coin.png">
+  <local:Banner.Gallery>
+    <BitmapImage UriSource="/Shop;component/Images/gem.png" />
+    <BitmapImage UriSource="/Shop;component/Images/coin.png" />
+  </local:Banner.Gallery>
+</local:Banner>
+`,
+});
+const imageMap = path.join(projectPath, "images.json");
+fs.writeFileSync(path.join(projectPath, ".noesis", "data", "structures", "Banner.xml"), `<Class Name="Banner" Namespace="Shop">
+  <Property Name="Picture" Type="Object" SubType="ImageSource" />
+  <Property Name="Gallery" Type="Collection" SubType="BitmapImage" />
+</Class>
+`);
+fs.mkdirSync(path.join(projectPath, "Images"));
+fs.writeFileSync(path.join(projectPath, "Images", "coin.png"), "");
+fs.writeFileSync(imageMap, JSON.stringify({ "Images/coin.png": "1234567890123456789" }));
+
+afterAll(() => removeFixture(projectPath));
+
+describe("image manifest", () => {
+  test("type-checks without images", async () => {
+    const source = outputImageManifest(new Map(), new Map(), 2);
+    expect(source).toContain("export type ImagePath = never;");
+    expect(await typeErrors(new Map([["NoesisImages.ts", source]]))).toEqual([]);
+  });
+
+  test("lists every image with the sets using it and its asset", async () => {
+    const { files, diagnostics } = await generate({ projectPath, imageMap });
+    const source = files.get("NoesisImages.ts")!;
+    expect(source).toContain(`"Images/coin.png": { sets: ["Banners"], assetId: "1234567890123456789" },`);
+    expect(source).toContain(`"Images/gem.png": { sets: ["Banners"] },`);
+    expect(diagnostics.map(({ code, path }) => [code, path])).toEqual([
+      ["missing-image-file", "Banner.Gallery[0]"],
+      ["unmapped-image", "Banner.Gallery[0]"],
+    ]);
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test("turns mapped images into ImageSource objects", async () => {
+    const { files } = await generate({ projectPath, imageMap, setName: "Banners" });
+    const source = files.get("Banners.ts")!;
+    expect(source).toContain(`Picture: imageSource("Images/coin.png"),`);
+    expect(source).toContain(`"Images/gem.png",`);
+  });
+});
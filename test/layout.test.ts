@@ -0,0 +1,54 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { generate } from "../src/generate";
+import { dataFormats, outputLayouts } from "../src/types";
+import { copyFixture, fixturePath, removeFixture, shopSet, typeErrors } from "./helpers";
+
+// a set naming no enum and no item
+const headerSet = shopSet("");
+
+const projectPath = copyFixture({ Header: headerSet });
+
+afterAll(() => removeFixture(projectPath));
+
+// names imported by a module that its body never uses
+function unusedImports(source: string): string[] {
+  const importLines = source.split("\n").filter((line) => line.startsWith("import "));
+  const body = source.split("\n").filter((line) => !line.startsWith("import ")).join("\n");
+  return importLines.flatMap((line) => line.match(/\{ (.*) \}/)?.[1]!.split(", ").map((name) => name.replace(/^type /, "").replace(/^.* as /, "")) ?? [])
+    .filter((name) => !new RegExp(`\\b${name}\\b`).test(body));
+}
+
+describe("output layouts", () => {
+  const combinations = outputLayouts.flatMap((layout) => dataFormats.map((dataFormat) => [layout, dataFormat] as const));
+
+  test.each(combinations)("type-check in the %s layout with the %s data format", async (layout, dataFormat) => {
+    const { files } = await generate({ projectPath: fixturePath, layout, dataFormat, bindings: true, paths: true });
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test("write a module per structure and a barrel", async () => {
+    const { files } = await generate({ projectPath: fixturePath, layout: "structure", typesOnly: true });
+    expect(Array.from(files.keys()).filter((file) => file.startsWith("types/Shop") || file === "types/ItemKind.ts" || file === "types/index.ts" || file === "types/common.ts").sort()).toEqual([
+      "types/ItemKind.ts", "types/ShopItem.ts", "types/ShopRoot.ts", "types/common.ts", "types/index.ts",
+    ]);
+    expect(files.get("types/index.ts")).toContain(`export * from "./ShopItem";\n`);
+    expect(files.get("types/ShopRoot.ts")).toContain(`import { ShopItem, validateShopItem, createShopItem } from "./ShopItem";\n`);
+  });
+
+  test("write a module per namespace", async () => {
+    const { files } = await generate({ projectPath: fixturePath, layout: "namespace", typesOnly: true });
+    expect(Array.from(files.keys()).sort()).toEqual(["types/Shop.ts", "types/common.ts", "types/global.ts", "types/index.ts"]);
+    expect(files.get("types/Shop.ts")).toContain("export type ShopItem = {");
+  });
+
+  test.each(outputLayouts)("import only what each module uses in the %s layout", async (layout) => {
+    const { files } = await generate({ projectPath, layout });
+    files.forEach((source, file) => {
+      expect({ file, unused: unusedImports(source) }).toEqual({ file, unused: [] });
+    });
+    const header = files.get("Header.ts")!;
+    expect(header).not.toContain("ItemKind");
+    expect(header).not.toContain("ShopItem");
+    expect(header).not.toContain("messageCommand");
+  });
+});
@@ -0,0 +1,23 @@
+import { expect, test } from "bun:test";
+import path from "node:path";
+import { lintViews } from "../src/lint";
+import { fixturePath } from "./helpers";
+
+test("binding paths are checked against the data context of their element", async () => {
+  const { views, bindingCount, diagnostics } = await lintViews({ projectPath: fixturePath });
+  expect(views).toEqual([{ file: path.join(fixturePath, "Views", "ShopView.xaml"), setName: "ShopMenu" }]);
+  expect(bindingCount).toBe(20);
+  expect(diagnostics.map(({ code, line, path }) => ({ code, line, path }))).toEqual([
+    { code: "unresolved-binding-path", line: 12, path: "ShopRoot.Headr" },
+    { code: "unresolved-binding-path", line: 15, path: "ShopRoot.Items[1].Prise" },
+    { code: "unresolved-binding-path", line: 25, path: "ShopItem.Header" },
+    { code: "unresolved-binding-path", line: 34, path: "ShopItem.Titel" },
+    { code: "unresolved-binding-path", line: 42, path: "ShopItem.Header" },
+  ]);
+});
+
+test("a set given by name is used for every view", async () => {
+  const { views, diagnostics } = await lintViews({ projectPath: fixturePath, setName: "Missing" });
+  expect(views).toEqual([]);
+  expect(diagnostics.map(({ code }) => code)).toEqual(["read-error"]);
+});
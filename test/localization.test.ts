@@ -0,0 +1,20 @@
+import { afterAll, expect, test } from "bun:test";
+import { generate } from "../src/generate";
+import { copyFixture, removeFixture, shopSet } from "./helpers";
+
+const projectPath = copyFixture({
+  "Shop.v2": shopSet(""),
+});
+
+afterAll(() => removeFixture(projectPath));
+
+test("XLIFF string tables group strings by the set they come from", async () => {
+  const { files } = await generate({ projectPath, localization: { format: "xliff" } });
+  const table = files.get("NoesisStrings.xlf")!;
+  const fileOf = (key: string) => {
+    const unit = table.indexOf(`<trans-unit id="${key}">`);
+    return /<file original="([^"]*)"/.exec(table.slice(table.lastIndexOf("<file ", unit)))?.[1];
+  };
+  expect(fileOf("Shop.v2.ShopRoot.Header")).toBe("Shop.v2.xaml");
+  expect(fileOf("ShopMenu.ShopRoot.Header")).toBe("ShopMenu.xaml");
+});
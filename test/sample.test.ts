@@ -0,0 +1,25 @@
+import { afterAll, expect, test } from "bun:test";
+import { sampleSet } from "../src/sample";
+import { copyFixture, removeFixture } from "./helpers";
+
+const projectPath = copyFixture();
+
+afterAll(() => removeFixture(projectPath));
+
+test("samples declare structure namespaces under a prefix, leaving built-ins in the presentation namespace", async () => {
+  const { source, dataSet, diagnostics } = await sampleSet({ projectPath, structure: "ShopRoot", seed: 7 });
+  expect(source).toStartWith(`<local:ShopRoot xmlns="http://schemas.microsoft.com/winfx/2006/xaml/presentation"`);
+  expect(source).toContain(`xmlns:local="clr-namespace:Shop"`);
+  expect(source).toContain("<local:ShopItem ");
+  expect(source).toContain("<local:ShopRoot.Tags>");
+  expect(source).toMatch(/<x:String>[^<]+<\/x:String>/);
+  expect(source).toMatch(/<Color>#[0-9A-F]{8}<\/Color>/);
+  expect(diagnostics).toEqual([]);
+  expect(dataSet?.rootStructure).toBe("Shop.ShopRoot");
+});
+
+test("the same seed gives the same set", async () => {
+  const first = await sampleSet({ projectPath, structure: "ShopRoot", seed: 7 });
+  const second = await sampleSet({ projectPath, structure: "ShopRoot", seed: 7 });
+  expect(second.source).toBe(first.source);
+});
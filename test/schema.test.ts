@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import { generate } from "../src/generate";
+import { fixturePath } from "./helpers";
+
+type Schema = Record<string, any>;
+
+// errors of a value against the schema keywords the generator writes; $refs name other documents by file name
+function schemaErrors(schemas: Map<string, Schema>, schema: Schema, value: unknown, path: string): string[] {
+  if (schema.$ref) {
+    return schemaErrors(schemas, schemas.get(schema.$ref)!, value, path);
+  }
+  if (schema.anyOf) {
+    return schema.anyOf.some((option: Schema) => schemaErrors(schemas, option, value, path).length === 0) ? [] : [`${path}: matches no option`];
+  }
+  const types = [schema.type ?? []].flat();
+  const type = value === null ? "null" : Array.isArray(value) ? "array" : Number.isInteger(value) && types.includes("integer") ? "integer" : typeof value;
+  if (types.length > 0 && !types.includes(type)) {
+    return [`${path}: ${type} is not ${types.join(" or ")}`];
+  }
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: ${value} is not in the enum`);
+  }
+  if (schema.const !== undefined && schema.const !== value) {
+    errors.push(`${path}: ${value} is not ${schema.const}`);
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: ${value} is below ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: ${value} is above ${schema.maximum}`);
+    }
+    if (schema.multipleOf !== undefined && Math.abs(Math.round(value / schema.multipleOf) * schema.multipleOf - value) > 1e-9) {
+      errors.push(`${path}: ${value} is not a multiple of ${schema.multipleOf}`);
+    }
+  }
+  if (typeof value === "string" && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    errors.push(`${path}: ${value} does not match ${schema.pattern}`);
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...schemaErrors(schemas, schema.items, item, `${path}[${index}]`)));
+  }
+  if (type === "object" && value !== null) {
+    const object = value as Record<string, unknown>;
+    (schema.required ?? []).filter((key: string) => !(key in object)).forEach((key: string) => errors.push(`${path}.${key}: missing`));
+    Object.entries(object).forEach(([key, propertyValue]) => {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...schemaErrors(schemas, propertySchema, propertyValue, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: not allowed`);
+      }
+    });
+  }
+  return errors;
+}
+
+// the schema documents of the fixture under an enum style, by file name, and the JSON data of its set
+async function generatedSchemas(enumStyle: "string" | "numeric"): Promise<{ schemas: Map<string, Schema>; data: unknown }> {
+  const { files } = await generate({ projectPath: fixturePath, schema: true, dataFormat: "json", enumStyle });
+  const schemas = new Map<string, Schema>();
+  files.forEach((source, file) => {
+    if (file.startsWith("schema/")) {
+      schemas.set(file.substring("schema/".length), JSON.parse(source));
+    }
+  });
+  return { schemas, data: JSON.parse(files.get("ShopMenu.json")!) };
+}
+
+describe("JSON Schema", () => {
+  test("writes a document per class and enum, and the shared brush", async () => {
+    const { schemas } = await generatedSchemas("string");
+    expect(Array.from(schemas.keys())).toContain("Shop.ShopItem.schema.json");
+    expect(Array.from(schemas.keys())).toContain("Shop.ItemKind.schema.json");
+    expect(Array.from(schemas.keys())).toContain("FontFamily.schema.json");
+    expect(Array.from(schemas.keys())).toContain("Brush.schema.json");
+  });
+
+  test("refers only to documents it writes", async () => {
+    const { schemas } = await generatedSchemas("string");
+    const refs = Array.from(schemas.values()).flatMap((schema) => Array.from(JSON.stringify(schema).matchAll(/"\$ref":"([^"]+)"/g), (match) => match[1]!));
+    expect(refs.filter((name) => !schemas.has(name))).toEqual([]);
+  });
+
+  test("carries the structure constraints", async () => {
+    const { schemas } = await generatedSchemas("string");
+    const item = schemas.get("Shop.ShopItem.schema.json")!;
+    expect(item.properties.Price).toEqual({ type: "number", minimum: 0, maximum: 1000, multipleOf: 0.01 });
+    expect(item.properties.Title.pattern).toBeDefined();
+    expect(item.properties.Kind).toEqual({ $ref: "Shop.ItemKind.schema.json" });
+    expect(item.required).toEqual(["Title", "Price", "Owned", "Kind", "Background", "Buy"]);
+    const root = schemas.get("Shop.ShopRoot.schema.json")!;
+    expect(root.properties.Items).toEqual({ type: "array", items: { $ref: "Shop.ShopItem.schema.json" } });
+    expect(root.properties.Featured).toEqual({ $ref: "Shop.ShopItem.schema.json" });
+  });
+
+  test("lists enum values in the generated enum style", async () => {
+    expect((await generatedSchemas("string")).schemas.get("Shop.ItemKind.schema.json")).toMatchObject({ type: "string", enum: ["Weapon", "Armor", "Potion"] });
+    expect((await generatedSchemas("numeric")).schemas.get("Shop.ItemKind.schema.json")).toMatchObject({ type: "integer", enum: [0, 1, 5] });
+  });
+
+  test("validates the generated JSON data", async () => {
+    const { schemas, data } = await generatedSchemas("string");
+    expect(schemaErrors(schemas, schemas.get("Shop.ShopRoot.schema.json")!, data, "ShopRoot")).toEqual([]);
+  });
+
+  test("rejects data breaking the constraints", async () => {
+    const { schemas, data } = await generatedSchemas("string");
+    const broken = structuredClone(data) as any;
+    broken.Items[0].Price = 10.123;
+    broken.Items[1].Title = "A very long potion name";
+    broken.Items[2].Kind = "Shield";
+    broken.Featured.Extra = true;
+    expect(schemaErrors(schemas, schemas.get("Shop.ShopRoot.schema.json")!, broken, "ShopRoot")).toEqual([
+      "ShopRoot.Featured.Extra: not allowed",
+      "ShopRoot.Items[0].Price: 10.123 is not a multiple of 0.01",
+      "ShopRoot.Items[1].Title: A very long potion name does not match ^\\s*\\S+(\\s+\\S+){0,2}\\s*$",
+      "ShopRoot.Items[2].Kind: Shield is not in the enum",
+    ]);
+  });
+});
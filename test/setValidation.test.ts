@@ -0,0 +1,21 @@
+import { afterAll, expect, test } from "bun:test";
+import { generate } from "../src/generate";
+import { copyFixture, removeFixture, shopSet } from "./helpers";
+
+const projectPath = copyFixture({
+  Colors: shopSet(`  <local:ShopRoot.Palette>
+    <Color>#F00</Color>
+    <Color>#12345</Color>
+    <Color>notacolor</Color>
+  </local:ShopRoot.Palette>`),
+});
+
+afterAll(() => removeFixture(projectPath));
+
+test("malformed collection items are located at their own element", async () => {
+  const { diagnostics } = await generate({ projectPath, setName: "Colors" });
+  expect(diagnostics.map(({ code, path, line, column }) => ({ code, path, line, column }))).toEqual([
+    { code: "invalid-value", path: "ShopRoot.Palette[1]", line: 4, column: 5 },
+    { code: "invalid-value", path: "ShopRoot.Palette[2]", line: 5, column: 5 },
+  ]);
+});
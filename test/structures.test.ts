@@ -0,0 +1,63 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import { generate } from "../src/generate";
+import { outputLayouts } from "../src/types";
+import { copyFixture, removeFixture, typeErrors } from "./helpers";
+
+const projectPath = copyFixture();
+const structuresPath = path.join(projectPath, ".noesis", "data", "structures");
+
+// a second ShopItem in another namespace, and a class reaching both
+fs.writeFileSync(path.join(structuresPath, "OutletShopItem.xml"), `<Class Name="ShopItem" Namespace="Outlet">
+  <Property Name="Label" Type="String" />
+</Class>
+`);
+fs.writeFileSync(path.join(structuresPath, "Stall.xml"), `<Class Name="Stall" Namespace="Outlet">
+  <Property Name="Items" Type="Collection" SubType="Outlet.ShopItem" />
+  <Property Name="Featured" Type="Object" SubType="Shop.ShopItem" />
+</Class>
+`);
+
+afterAll(() => removeFixture(projectPath));
+
+describe("structure names", () => {
+  test("report structures whose short names would generate the same type", async () => {
+    const { diagnostics } = await generate({ projectPath, typesOnly: true });
+    // whichever of the two is read second is reported
+    expect(diagnostics.map(({ severity, code }) => [severity, code])).toEqual([["error", "structure-name-collision"]]);
+    expect(diagnostics[0]!.message).toContain("Outlet.ShopItem");
+    expect(diagnostics[0]!.message).toContain("Shop.ShopItem");
+  });
+
+  test("keep structures sharing a short name apart when prefixing namespaces", async () => {
+    const { files, diagnostics } = await generate({ projectPath, prefixNamespaces: true });
+    expect(diagnostics).toEqual([]);
+    const types = files.get("NoesisTypes.ts")!;
+    expect(types).toContain("export type Shop_ShopItem = {");
+    expect(types).toContain("export type Outlet_ShopItem = {");
+    expect(types).toContain("Items: Array<Outlet_ShopItem>;");
+    expect(types).toContain("Featured: Shop_ShopItem;");
+    expect(files.get("ShopMenu.ts")).toContain("Featured: {\n      Title: \"Big Sword\",");
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test.each(outputLayouts)("type-check with prefixed namespaces in the %s layout", async (layout) => {
+    const { files } = await generate({ projectPath, prefixNamespaces: true, layout });
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test("report a structure named like a built-in", async () => {
+    const builtInProject = copyFixture();
+    try {
+      fs.writeFileSync(path.join(builtInProject, ".noesis", "data", "structures", "Visibility.xml"), `<Enum Name="Visibility">\n  <Item Name="Shown" />\n</Enum>\n`);
+      const { files, diagnostics } = await generate({ projectPath: builtInProject, typesOnly: true });
+      expect(diagnostics.map(({ code, message }) => [code, message])).toEqual([
+        ["structure-name-collision", "Structure Visibility has the same name as a built-in"],
+      ]);
+      expect(files.get("NoesisTypes.ts")).toContain(`"Collapsed"`);
+    } finally {
+      removeFixture(builtInProject);
+    }
+  });
+});
@@ -0,0 +1,44 @@
+import { afterAll, describe, expect, mock, test } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import { generate } from "../src/generate";
+import { enumStyles } from "../src/types";
+import { fixturePath, typeErrors, writeOutput } from "./helpers";
+
+// the generated types import ImageSource, which only the Horizon runtime provides
+mock.module("horizon/ui", () => ({ ImageSource: class {} }));
+
+const outputDirectories: string[] = [];
+
+afterAll(() => outputDirectories.forEach((directory) => fs.rmSync(directory, { recursive: true, force: true })));
+
+// the generated types of the fixture under an enum style
+async function generatedTypes(enumStyle: (typeof enumStyles)[number]): Promise<any> {
+  const { files } = await generate({ projectPath: fixturePath, enumStyle, typesOnly: true });
+  const directory = await writeOutput(files);
+  outputDirectories.push(directory);
+  return import(path.join(directory, "NoesisTypes.ts"));
+}
+
+describe("generated validators", () => {
+  test.each(enumStyles)("type-check under the %s enum style", async (enumStyle) => {
+    const { files } = await generate({ projectPath: fixturePath, enumStyle, typesOnly: true });
+    expect(await typeErrors(files)).toEqual([]);
+  });
+
+  test("accept only the values of numeric enums", async () => {
+    const types = await generatedTypes("numeric");
+    expect(types.validateShopItem(types.createShopItem({ Title: "Shield", Kind: 5 }))).toEqual([]);
+    expect(types.validateShopItem(types.createShopItem({ Title: "Shield", Kind: "Potion" }))).toEqual([
+      { path: "ShopItem.Kind", message: "Potion is not a member of ItemKind" },
+    ]);
+  });
+
+  test("accept only the item names of string enums", async () => {
+    const types = await generatedTypes("string");
+    expect(types.validateShopItem(types.createShopItem({ Title: "Shield", Kind: "Potion" }))).toEqual([]);
+    expect(types.validateShopItem(types.createShopItem({ Title: "Shield", Kind: 5 }))).toEqual([
+      { path: "ShopItem.Kind", message: "5 is not a member of ItemKind" },
+    ]);
+  });
+});
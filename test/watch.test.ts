@@ -0,0 +1,80 @@
+import { afterAll, afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import { generate, projectDataPath, writeGeneratedFiles } from "../src/generate";
+import { watchProject, type ProjectWatcher } from "../src/watch";
+import { copyFixture, fixturePath, removeFixture, shopSet } from "./helpers";
+
+const projectPath = copyFixture();
+const outputDirectory = path.join(projectPath, "out");
+const reportFile = path.join(projectPath, "report.json");
+const dataPath = projectDataPath(projectPath);
+let watcher: ProjectWatcher;
+
+afterAll(() => removeFixture(projectPath));
+
+// the output file once its source satisfies the condition, failing after a few seconds
+async function waitForOutput(file: string, condition: (source: string) => boolean): Promise<string> {
+  const outputFile = path.join(outputDirectory, file);
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const source = fs.existsSync(outputFile) ? fs.readFileSync(outputFile, "utf8") : "";
+    if (condition(source)) {
+      return source;
+    }
+    await Bun.sleep(50);
+  }
+  throw new Error(`${file} was not regenerated`);
+}
+
+describe("watch mode", () => {
+  beforeEach(async () => {
+    // progress and diagnostics of every regeneration are printed
+    (["log", "warn", "error"] as const).forEach((method) => spyOn(console, method).mockImplementation(() => {}));
+    fs.rmSync(outputDirectory, { recursive: true, force: true });
+    fs.rmSync(reportFile, { force: true });
+    fs.cpSync(path.join(fixturePath, ".noesis"), path.join(projectPath, ".noesis"), { recursive: true });
+    const { files, structures, dataSets, nullable, options } = await generate({ projectPath });
+    await writeGeneratedFiles(files, outputDirectory, false);
+    watcher = watchProject({
+      dataPath,
+      outputDirectory,
+      isVerbose: false,
+      outputOptions: options.outputOptions,
+      types: options.types,
+      typesOnly: false,
+      report: { format: "json", file: reportFile },
+      debounceDelay: 20,
+    }, structures, dataSets, nullable);
+  });
+
+  afterEach(async () => {
+    await watcher.close();
+    mock.restore();
+  });
+
+  test("regenerates a changed set and the command registry", async () => {
+    fs.writeFileSync(path.join(dataPath, "sets", "ShopMenu.xaml"), shopSet(`  <local:ShopRoot.Close>
+    <noesis:MessageCommand xmlns:noesis="clr-namespace:NoesisGUIExtensions;assembly=Noesis.GUI.Extensions" Message="leave" />
+  </local:ShopRoot.Close>`));
+    const source = await waitForOutput("ShopMenu.ts", (source) => source.includes(`Header: "Test"`));
+    expect(source).toContain(`"leave"`);
+    expect(await waitForOutput("NoesisCommands.ts", (source) => source.includes(`"leave"`))).not.toContain(`"buyItem"`);
+  });
+
+  test("regenerates the types and the sets reaching a changed structure", async () => {
+    const file = path.join(dataPath, "structures", "ShopItem.xml");
+    fs.writeFileSync(file, fs.readFileSync(file, "utf8").replace(`<Property Name="Owned" Type="Boolean" />`, ""));
+    await waitForOutput("NoesisTypes.ts", (source) => !source.includes("Owned"));
+    await waitForOutput("ShopMenu.ts", (source) => !source.includes("Owned"));
+  });
+
+  test("rewrites the report with the diagnostics of every regeneration", async () => {
+    fs.writeFileSync(path.join(dataPath, "sets", "Broken.xaml"), shopSet(`  <local:ShopRoot.Featured>
+    <local:ShopItem Title="Broken" Price="abc" />
+  </local:ShopRoot.Featured>`));
+    await waitForOutput("Broken.ts", (source) => source !== "");
+    await watcher.close();
+    const report = JSON.parse(fs.readFileSync(reportFile, "utf8"));
+    expect(report.diagnostics.map(({ code, path }: any) => [code, path])).toEqual([["invalid-value", "ShopRoot.Featured.Price"]]);
+  });
+});